@@ -8,10 +8,14 @@ import http from "http"
 import https from "https"
 import _Docker from "dockerode"
 import ScriptRunner from "./utils/ScriptRunner"
+import { Reencrypt } from "./utils/Reencrypt"
 import LegacyAPI from "./utils/legacy/route"
 import nano from "nano"
 import cors from "cors"
 import morgan from "morgan"
+import { ActivityEventRepository } from "./repository/ActivityEventRepository"
+import { SensorEventRepository } from "./repository/SensorEventRepository"
+import { AuditRepository } from "./repository/AuditRepository"
 
 // FIXME: Support application/json;indent=:spaces format mime type!
 
@@ -24,6 +28,16 @@ export const Database = nano(process.env.CDB || "")
 // Configure the base Express app and middleware.
 export const app: Application = express()
 app.set("json spaces", 2)
+
+// Failed logins are counted against the client's address, not that of a reverse proxy in front of us, so trust
+// the `X-Forwarded-For` of proxies on a private network, or whichever `TRUST_PROXY` names instead: a number of
+// hops, `true`, `false`, or a list of addresses, as in the "trust proxy" setting of Express.
+const _trust_proxy = (value: string): boolean | number | string => {
+  if (/^\d+$/.test(value)) return Number(value)
+  if (value === "true" || value === "false") return value === "true"
+  return value
+}
+app.set("trust proxy", _trust_proxy(process.env.TRUST_PROXY || "loopback, linklocal, uniquelocal"))
 app.use(bodyParser.json({ limit: "50mb", strict: false }))
 app.use(bodyParser.text())
 app.use(cors())
@@ -138,9 +152,26 @@ export let SQL: sql.ConnectionPool | undefined
 export const Root = { id: "root", password: process.env.ROOT_PASSWORD || "" }
 
 /**
- * If the data could not be encrypted or is invalid, returns `undefined`.
+ * The keys `Encrypt` and `Decrypt` use, loaded from `KEYRING` as a comma-separated list of `<key ID>:<hex key>`
+ * entries. Everything is encrypted with the first (primary) key; the rest are only kept to decrypt values
+ * that haven't been re-encrypted yet. Without a keyring, the legacy `DB_KEY` and `ROOT_KEY` are used instead.
+ */
+export const Keyring: { id: string; key: Buffer }[] = (process.env.KEYRING || "")
+  .split(",")
+  .map((x) => x.trim().split(":"))
+  .filter(([id]) => id.length > 0)
+  .map(([id, key]) => {
+    if (!/^[A-Za-z0-9_-]+$/.test(id) || !/^[0-9a-fA-F]{64}$/.test(key ?? "")) throw new Error("500.invalid-keyring")
+    return { id, key: Buffer.from(key, "hex") }
+  })
+
+/**
+ * Encrypt the data with AES-GCM under the primary key of the `Keyring`, as `v1$<key ID>$<base64 data>`.
+ * The "Rijndael" mode is deterministic, so that the encrypted data can still be looked up by equality;
+ * the "AES256" mode is not. If the data could not be encrypted or is invalid, returns `undefined`.
  */
 export const Encrypt = (data: string, mode: "Rijndael" | "AES256" = "Rijndael"): string | undefined => {
+  if (Keyring.length > 0) return _encrypt(data, Keyring[0], mode === "Rijndael")
   try {
     if (mode === "Rijndael") {
       const cipher = crypto.createCipheriv("aes-256-ecb", process.env.DB_KEY || "", "")
@@ -155,11 +186,18 @@ export const Encrypt = (data: string, mode: "Rijndael" | "AES256" = "Rijndael"):
 }
 
 /**
- * If the data could not be decrypted or is invalid, returns `undefined`.
+ * Decrypt data from `Encrypt` under any key of the `Keyring`, or from before the `Keyring` under the
+ * legacy key for the mode. If the data could not be decrypted or is invalid, returns `undefined`.
  */
 export const Decrypt = (data: string, mode: "Rijndael" | "AES256" = "Rijndael"): string | undefined => {
   try {
-    if (mode === "Rijndael") {
+    if (data.startsWith("v1$")) {
+      const [, id, payload] = data.split("$")
+      const dat = Buffer.from(payload, "base64")
+      const cipher = crypto.createDecipheriv("aes-256-gcm", Keyring.find((x) => x.id === id)!.key, dat.slice(0, 12))
+      cipher.setAuthTag(dat.slice(12, 28))
+      return Buffer.concat([cipher.update(dat.slice(28)), cipher.final()]).toString("utf8")
+    } else if (mode === "Rijndael") {
       const cipher = crypto.createDecipheriv("aes-256-ecb", process.env.DB_KEY || "", "")
       return cipher.update(data, "base64", "utf8") + cipher.final("utf8")
     } else if (mode === "AES256") {
@@ -175,6 +213,73 @@ export const Decrypt = (data: string, mode: "Rijndael" | "AES256" = "Rijndael"):
   return undefined
 }
 
+/**
+ * Every value that `Encrypt(data)` could have stored for the data, under each key of the `Keyring` or the
+ * legacy key, so that rows can be looked up by an encrypted column before they have been re-encrypted.
+ */
+export const Ciphertexts = (data: string): string[] => {
+  const output = Keyring.map((x) => _encrypt(data, x, true))
+  try {
+    const cipher = crypto.createCipheriv("aes-256-ecb", process.env.DB_KEY || "", "")
+    output.push(cipher.update(data, "utf8", "base64") + cipher.final("base64"))
+  } catch {}
+  return output.filter((x, idx) => x !== undefined && output.indexOf(x) === idx) as string[]
+}
+
+/**
+ * Whether the data was encrypted under the primary key of the `Keyring`, and needs no re-encryption.
+ */
+export const Current = (data: string): boolean => Keyring.length > 0 && data.startsWith(`v1$${Keyring[0].id}$`)
+
+const _encrypt = (data: string, entry: { id: string; key: Buffer }, deterministic: boolean): string | undefined => {
+  try {
+    // A deterministic IV is derived from the data with a separate key, so that it reveals nothing but equality.
+    const ivl = deterministic
+      ? crypto
+          .createHmac("sha256", crypto.createHmac("sha256", entry.key).update("lamp.iv").digest())
+          .update(data, "utf8")
+          .digest()
+          .slice(0, 12)
+      : crypto.randomBytes(12)
+    const cipher = crypto.createCipheriv("aes-256-gcm", entry.key, ivl)
+    const dat = Buffer.concat([cipher.update(data, "utf8"), cipher.final()])
+    return `v1$${entry.id}$${Buffer.concat([ivl, cipher.getAuthTag(), dat]).toString("base64")}`
+  } catch {}
+  return undefined
+}
+
+/**
+ * Derive a salted scrypt hash of the secret for storage, in the form `scrypt$<salt>$<hash>`.
+ */
+export const Hash = async (secret: string): Promise<string> => {
+  const salt = crypto.randomBytes(16)
+  return `scrypt$${salt.toString("base64")}$${(await _scrypt(secret, salt, 64)).toString("base64")}`
+}
+
+/**
+ * Check the secret against a stored value from `Hash`, or from `Encrypt(..., "AES256")` for values
+ * stored before secrets were hashed. If there is no stored value, the secret never matches.
+ */
+export const Verify = async (secret: string, data?: string | null): Promise<boolean> => {
+  if (!data) return false
+  if (!Hashed(data)) return Decrypt(data, "AES256") === secret
+  const [, salt, hash] = data.split("$")
+  if (!salt || !hash) return false
+  const expected = Buffer.from(hash, "base64")
+  const actual = await _scrypt(secret, Buffer.from(salt, "base64"), expected.length)
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected)
+}
+
+/**
+ * Whether the stored value is from `Hash`, rather than from before secrets were hashed.
+ */
+export const Hashed = (data?: string | null): boolean => !!data && data.startsWith("scrypt$")
+
+const _scrypt = (secret: string, salt: Buffer, length: number): Promise<Buffer> =>
+  new Promise((resolve, reject) =>
+    crypto.scrypt(secret, salt, length, (err, key) => (!!err ? reject(err) : resolve(key)))
+  )
+
 /**
  *
  */
@@ -200,6 +305,11 @@ async function main() {
     _rev: undefined,
   }
 
+  // Ensure the CouchDB databases and indexes backing event and audit queries exist before serving requests.
+  await ActivityEventRepository._create_indexes()
+  await SensorEventRepository._create_indexes()
+  await AuditRepository._create_indexes()
+
   // Establish the API routes.
   app.use("/", API)
   app.use("/v0", LegacyAPI)
@@ -236,6 +346,9 @@ async function main() {
     },
   }).connect()
 
+  // Re-encrypt anything that isn't under the primary key yet in the background, after a key rotation.
+  Reencrypt().catch((e) => console.error(e))
+
   // Begin listener on port 3000.
   _server.listen(process.env.PORT || 3000)
 }
@@ -0,0 +1,6 @@
+import { AccessCitation } from "./Document"
+export class AuditEvent extends AccessCitation {
+  public route = ""
+  public method = ""
+  public status = 0
+}
@@ -6,4 +6,8 @@ export class Credential {
   public access_key = ""
   public secret_key: string | null = ""
   public description = ""
+  public scopes?: string[]
+  public expires_at?: number
+  public created_at?: number
+  public last_used_at?: number
 }
@@ -4,9 +4,13 @@ export class AccessCitation {
   public at = ""
   public on: Timestamp = 0
   public by = ""
+  public cosign?: string
 }
 export class Metadata {
   public access: AccessCitation = new AccessCitation()
+  public duration = 0
+  public count?: number
+  public filters: { [key: string]: any } = {}
 }
 export class Document<T> {
   public meta: Metadata = new Metadata()
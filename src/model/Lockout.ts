@@ -0,0 +1,6 @@
+export class Lockout {
+  public key = ""
+  public failures = 0
+  public last_failure = 0
+  public locked_until = 0
+}
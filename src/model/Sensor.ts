@@ -1 +1,13 @@
-export class Sensor {}
+import { Identifier } from "./Type"
+export class SensorSettings {
+  public frequency?: number
+  public duty_cycle?: number
+  public enabled?: boolean;
+  [key: string]: any
+}
+export class Sensor {
+  public id?: Identifier
+  public spec?: Identifier
+  public name?: string
+  public settings?: SensorSettings
+}
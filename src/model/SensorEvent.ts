@@ -42,6 +42,6 @@ export enum SocialContext {
 }
 export class SensorEvent {
   public timestamp?: Timestamp
-  public sensor?: SensorName
+  public sensor?: SensorName | string
   public data?: any
 }
@@ -6,4 +6,5 @@ type JSONSchema = any
 export class SensorSpec {
   public name?: string
   public settings_schema?: JSONSchema
+  public data_schema?: JSONSchema
 }
@@ -0,0 +1,7 @@
+import { Identifier } from "./Type"
+export type StudyRole = "owner" | "coordinator" | "analyst" | "clinician"
+export class StudyMember {
+  public study_id?: Identifier
+  public researcher_id?: Identifier
+  public role?: StudyRole
+}
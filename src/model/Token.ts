@@ -0,0 +1,6 @@
+export class Token {
+  public access_token = ""
+  public refresh_token = ""
+  public token_type = "Bearer"
+  public expires_in = 0
+}
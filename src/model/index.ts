@@ -1,11 +1,16 @@
 export * from "./Activity"
 export * from "./ActivitySpec"
+export * from "./AuditEvent"
 export * from "./Credential"
 export * from "./Document"
+export * from "./Lockout"
 export * from "./Participant"
 export * from "./Researcher"
 export * from "./ActivityEvent"
+export * from "./Sensor"
 export * from "./SensorEvent"
 export * from "./SensorSpec"
 export * from "./Study"
+export * from "./StudyMember"
+export * from "./Token"
 export * from "./Type"
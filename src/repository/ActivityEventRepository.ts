@@ -1,17 +1,19 @@
 import { Database } from "../app"
 import { Study } from "../model/Study"
 import { Researcher } from "../model/Researcher"
+import { Activity } from "../model/Activity"
 import { ActivityEvent } from "../model/ActivityEvent"
 import { ResearcherRepository } from "../repository/ResearcherRepository"
 import { StudyRepository } from "../repository/StudyRepository"
 import { ParticipantRepository } from "../repository/ParticipantRepository"
-import { Identifier_unpack } from "../repository/TypeRepository"
+import { ActivityRepository } from "../repository/ActivityRepository"
+import { ActivitySpecRepository } from "../repository/ActivitySpecRepository"
+import { Identifier_unpack, Cursor_pack, Cursor_unpack } from "../repository/TypeRepository"
+import { Validate, ValidateEvents } from "../utils/Validator"
 import { _migrate_activity_event, _migrator_lookup_table, _migrator_export_table } from "./migrate"
 import { customAlphabet } from "nanoid"
 const uuid = customAlphabet("1234567890abcdefghjkmnpqrstvwxyz", 20) // crockford-32
 
-// FIXME: does not support filtering by ActivitySpec yet.
-
 export class ActivityEventRepository {
   /**
    * Get a set of `ActivityEvent`s matching the criteria parameters.
@@ -39,6 +41,41 @@ export class ActivityEventRepository {
 
     limit?: number
   ): Promise<ActivityEvent[]> {
+    return (await ActivityEventRepository._page(id, activity_id_or_spec, from_date, to_date, limit)).data
+  }
+
+  /**
+   * Get a single page of `ActivityEvent`s matching the criteria parameters, along with a
+   * cursor to continue from, which is `null` once no further pages remain.
+   */
+  public static async _page(
+    /**
+     *
+     */
+    id?: string,
+
+    /**
+     *
+     */
+    activity_id_or_spec?: string,
+
+    /**
+     *
+     */
+    from_date?: number,
+
+    /**
+     *
+     */
+    to_date?: number,
+
+    limit?: number,
+
+    /**
+     * An opaque token returned by a previous page to continue from.
+     */
+    cursor?: string
+  ): Promise<{ data: ActivityEvent[]; cursor: string | null }> {
     _migrate_activity_event()
     const _lookup_table = await _migrator_export_table()
 
@@ -53,34 +90,47 @@ export class ActivityEventRepository {
     else if (!!id) throw new Error("400.invalid-identifier")
     //user_id = !!user_id ? Encrypt(user_id) : undefined
 
-    const all_res = (
-      await Database.use("activity_event").find({
-        selector: {
-          "#parent": id!,
-          activity: activity_id_or_spec!,
-          timestamp:
-            from_date === undefined && to_date === undefined
-              ? (undefined as any)
-              : {
-                  $gte: from_date,
-                  $lt: from_date === to_date ? to_date! + 1 : to_date,
-                },
-        },
+    // Continue in the same sort order as the page that produced the cursor, if any.
+    const _cursor = cursor !== undefined ? Cursor_unpack(cursor) : undefined
+    const order = _cursor?.order ?? (!!limit && limit < 0 ? "asc" : "desc")
+    const page_size = Math.abs(limit ?? 1000)
+    const selector = await _selector(id, activity_id_or_spec, from_date, to_date)
+
+    // Events are always parented by their Participant, so a Study or Researcher is searched through its
+    // Participants, a batch at a time, continuing into the next batch whenever one runs out.
+    const parents = !!admin_id ? await _parents(id!) : [selector["#parent"]]
+    let batch = _cursor?.batch ?? 0
+    let bookmark = _cursor?.bookmark || undefined
+    const docs: any[] = []
+    while (batch < parents.length && docs.length < page_size) {
+      const requested = page_size - docs.length
+      const result = await Database.use("activity_event").find({
+        selector: { ...selector, "#parent": parents[batch] },
         sort: [
-          {
-            timestamp: !!limit && limit < 0 ? "asc" : "desc",
-          },
+          ...(parents[batch] !== undefined ? [{ "#parent": order }] : []),
+          ...(typeof selector.activity === "string" ? [{ activity: order }] : []),
+          { timestamp: order },
         ],
-        limit: Math.abs(limit ?? 1000),
+        limit: requested,
+        bookmark,
       })
-    ).docs.map((x) => ({
+      docs.push(...result.docs)
+      if (result.docs.length < requested) {
+        batch += 1
+        bookmark = undefined
+      } else bookmark = result.bookmark
+    }
+    const all_res = docs.map((x) => ({
       ...x,
       _id: undefined,
       _rev: undefined,
       "#parent": undefined,
       activity: _lookup_table[(x as any).activity],
     })) as any
-    return all_res
+    return {
+      data: all_res,
+      cursor: batch >= parents.length ? null : Cursor_pack({ bookmark: bookmark ?? "", order, batch }),
+    }
 
     // Perform a group-by operation on the participant ID if needed.
     /*return !admin_id
@@ -93,6 +143,21 @@ export class ActivityEventRepository {
     */
   }
 
+  /**
+   * Create the Mango indexes backing `_select` so that queries never fall back to full scans.
+   */
+  public static async _create_indexes(): Promise<void> {
+    for (const fields of [
+      ["#parent", "timestamp"],
+      ["#parent", "activity", "timestamp"],
+    ])
+      await Database.use("activity_event").createIndex({
+        index: { fields },
+        ddoc: `index-${fields.join("-").replace("#", "")}`,
+        name: `index-${fields.join("-").replace("#", "")}`,
+      })
+  }
+
   /**
    * Add a new `ActivityEvent` with new fields.
    */
@@ -106,8 +171,19 @@ export class ActivityEventRepository {
      * The new object to append.
      */
     objects: ActivityEvent[]
-  ): Promise<{}> {
+  ): Promise<{ rejected?: { index: number; errors: string[] }[]; warnings?: { index: number; errors: string[] }[] }> {
     //_migrate_activity_event()
+
+    // Validate each event against the `ActivitySpec` of its `Activity` and, if the participant's
+    // study is in "reject" mode, drop any invalid events instead of only reporting them.
+    const validated = await ValidateEvents(
+      participant_id,
+      objects,
+      "lamp.activity_event.validation",
+      await _validator(participant_id)
+    )
+    objects = validated.objects
+
     const _lookup_table = await _migrator_lookup_table() // FIXME
     const _lookup_migrator_id = (legacyID: string): string => {
       let match = _lookup_table[legacyID]
@@ -132,7 +208,7 @@ export class ActivityEventRepository {
     })
     const output = data.filter((x) => !!x.error)
     if (output.length > 0) console.error(output)
-    return {}
+    return validated.result
   }
 
   /**
@@ -158,8 +234,103 @@ export class ActivityEventRepository {
      *
      */
     to_date?: number
-  ): Promise<{}> {
-    throw new Error("503.unimplemented")
-    return {}
+  ): Promise<number> {
+    // Collect and tombstone matching documents in fixed-size batches until none remain.
+    let deleted = 0
+    while (true) {
+      const batch = (
+        await Database.use("activity_event").find({
+          selector: await _selector(participant_id, activity_id_or_spec, from_date, to_date),
+          fields: ["_id", "_rev"],
+          limit: 1000,
+        })
+      ).docs
+      if (batch.length === 0) break
+      const data = await Database.use("activity_event").bulk({
+        docs: batch.map((x) => ({ _id: x._id, _rev: x._rev, _deleted: true })),
+      })
+      const output = data.filter((x) => !!x.error)
+      if (output.length > 0) console.error(output)
+      deleted += data.length - output.length
+      if (output.length === data.length) throw new Error("500.delete-failed")
+    }
+    return deleted
+  }
+}
+
+/**
+ * The number of Participants whose events are searched at once when searching a `Study` or `Researcher`.
+ */
+const PARENTS_PER_BATCH = 100
+
+/**
+ * Get the `#parent` selectors covering every `Participant` of a `Study` or `Researcher`, in batches.
+ */
+const _parents = async (id: string): Promise<{ $in: string[] }[]> => {
+  const participants = (await ParticipantRepository._select(id)).map((x) => x.id as string)
+  const output: { $in: string[] }[] = []
+  for (let i = 0; i < participants.length; i += PARENTS_PER_BATCH)
+    output.push({ $in: participants.slice(i, i + PARENTS_PER_BATCH) })
+  return output
+}
+
+/**
+ * Build the Mango selector for the criteria parameters. The `activity_id_or_spec` may be a
+ * comma-separated list of public `Activity` IDs or `ActivitySpec` names; each is resolved
+ * into the stored migrator IDs, scoped to the Activities visible from `id`.
+ */
+const _selector = async (
+  id?: string,
+  activity_id_or_spec?: string,
+  from_date?: number,
+  to_date?: number
+): Promise<any> => {
+  let activities: string[] | undefined
+  if (!!activity_id_or_spec) {
+    const _lookup_table = await _migrator_lookup_table()
+    const items = activity_id_or_spec.split(",").map((x) => x.trim())
+    const specs = items.filter((x) => Identifier_unpack(x)[0] !== (<any>Activity).name)
+    const public_ids = [
+      ...items.filter((x) => Identifier_unpack(x)[0] === (<any>Activity).name),
+      ...(specs.length === 0 ? [] : await ActivityRepository._select(id))
+        .filter((x) => specs.includes(x.spec as string))
+        .map((x) => x.id as string),
+    ]
+    activities = public_ids.map((x) => _lookup_table[x]).filter((x) => x !== undefined)
+  }
+  return {
+    "#parent": id!,
+    activity:
+      activities === undefined ? (undefined as any) : activities.length === 1 ? activities[0] : { $in: activities },
+    timestamp:
+      from_date === undefined && to_date === undefined
+        ? (undefined as any)
+        : {
+            $gte: from_date,
+            $lt: from_date === to_date ? to_date! + 1 : to_date,
+          },
+  }
+}
+
+/**
+ * Get a function validating the `static_data` and each of the `temporal_slices` of an event against the
+ * `static_data_schema` and `temporal_slice_schema` of the `ActivitySpec` of its `Activity`, returning its failures.
+ */
+const _validator = async (participant_id: string): Promise<(event: ActivityEvent) => string[]> => {
+  const specs = (await ActivitySpecRepository._select()).filter(
+    (x) => !!x.static_data_schema || !!x.temporal_slice_schema
+  )
+  const activities = specs.length === 0 ? [] : await ActivityRepository._select(participant_id)
+  return (event) => {
+    const activity = activities.find((x) => x.id === String(event.activity))
+    const spec = specs.find((x) => (x as any).id === activity?.spec || x.name === activity?.spec)
+    if (spec === undefined) return []
+    return [
+      ...Validate(spec.static_data_schema, event.static_data ?? {}, "/static_data"),
+      ...(event.temporal_slices ?? []).reduce(
+        (all, slice, idx) => [...all, ...Validate(spec.temporal_slice_schema, slice, `/temporal_slices/${idx}`)],
+        [] as string[]
+      ),
+    ]
   }
 }
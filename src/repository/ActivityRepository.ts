@@ -1,5 +1,5 @@
 import { SQL, Encrypt, Decrypt } from "../app"
-import { IResult } from "mssql"
+import sql, { IResult } from "mssql"
 import { Activity } from "../model/Activity"
 import { Participant } from "../model/Participant"
 import { Study } from "../model/Study"
@@ -10,7 +10,9 @@ import { ResearcherRepository } from "../repository/ResearcherRepository"
 import { StudyRepository } from "../repository/StudyRepository"
 import { ParticipantRepository } from "../repository/ParticipantRepository"
 import { TypeRepository } from "../repository/TypeRepository"
-import { Identifier_unpack, Identifier_pack } from "../repository/TypeRepository"
+import { Identifier_unpack, Identifier_pack, Parameter_list } from "../repository/TypeRepository"
+import { ActivitySpecRepository } from "../repository/ActivitySpecRepository"
+import { Validate } from "../utils/Validator"
 import { ActivityIndex } from "./migrate"
 
 export class ActivityRepository {
@@ -82,43 +84,31 @@ export class ActivityRepository {
       case ResearcherRepository:
         if (survey_id > 0 /* survey */) {
           const result = (
-            await SQL!.request().query(`
+            await SQL!.request().input("survey_id", sql.BigInt, survey_id).query(`
 						SELECT AdminID AS value
 						FROM Survey
-						WHERE IsDeleted = 0 AND SurveyID = '${survey_id}'
+						WHERE IsDeleted = 0 AND SurveyID = @survey_id
 					;`)
           ).recordset
-          return result.length === 0
-            ? undefined
-            : (type === ResearcherRepository ? ResearcherRepository : StudyRepository)._pack_id({
-                admin_id: result[0].value,
-              })
+          return result.length === 0 ? undefined : await _parent_pack(id, type, result[0].value)
         } else if (ctest_id > 0 /* ctest */) {
           const result = (
-            await SQL!.request().query(`
+            await SQL!.request().input("ctest_id", sql.BigInt, ctest_id).query(`
 						SELECT AdminID AS value
 						FROM Admin_CTestSettings
-						WHERE Status = 1 AND AdminCTestSettingID = '${ctest_id}'
+						WHERE Status = 1 AND AdminCTestSettingID = @ctest_id
 					;`)
           ).recordset
-          return result.length === 0
-            ? undefined
-            : (type === ResearcherRepository ? ResearcherRepository : StudyRepository)._pack_id({
-                admin_id: result[0].value,
-              })
+          return result.length === 0 ? undefined : await _parent_pack(id, type, result[0].value)
         } else if (group_id > 0 /* group */) {
           const result = (
-            await SQL!.request().query(`
+            await SQL!.request().input("group_id", sql.BigInt, ctest_id).query(`
 						SELECT AdminID AS value
 						FROM Admin_BatchSchedule
-						WHERE IsDeleted = 0 AND AdminBatchSchID = '${ctest_id}'
+						WHERE IsDeleted = 0 AND AdminBatchSchID = @group_id
 					;`)
           ).recordset
-          return result.length === 0
-            ? undefined
-            : (type === ResearcherRepository ? ResearcherRepository : StudyRepository)._pack_id({
-                admin_id: result[0].value,
-              })
+          return result.length === 0 ? undefined : await _parent_pack(id, type, result[0].value)
         } else return undefined
       default:
         throw new Error("400.invalid-identifier")
@@ -153,8 +143,13 @@ export class ActivityRepository {
       admin_id = ResearcherRepository._unpack_id((<any>await TypeRepository._parent(<string>id))["Researcher"]).admin_id
     else if (!!id) throw new Error("400.invalid-identifier")
 
+    const req = SQL!.request()
+    req.input("ctest_id", sql.BigInt, ctest_id ?? null)
+    req.input("survey_id", sql.BigInt, survey_id ?? null)
+    req.input("group_id", sql.BigInt, group_id ?? null)
+    req.input("admin_id", sql.BigInt, admin_id ?? null)
     const resultBatch = (
-      await SQL!.request().query(`
+      await req.query(`
 			SELECT 
 				AdminBatchSchID AS id, 
 				AdminID AS aid,
@@ -163,12 +158,19 @@ export class ActivityRepository {
 			FROM Admin_BatchSchedule
       WHERE IsDeleted = 0 
         ${(ctest_id ?? 0) > 0 || (survey_id ?? 0) > 0 ? `AND 1=0` : ``}
-				${group_id ?? 0 > 0 ? `AND AdminBatchSchID = '${group_id}'` : ``}
-				${admin_id ?? 0 > 0 ? `AND AdminID = '${admin_id}'` : ``}
+				${group_id ?? 0 > 0 ? `AND AdminBatchSchID = @group_id` : ``}
+				${admin_id ?? 0 > 0 ? `AND AdminID = @admin_id` : ``}
 		;`)
     ).recordset
+    const batch_req = SQL!.request()
+    const batch_ids = Parameter_list(
+      batch_req,
+      "batch_id",
+      resultBatch.map((x) => x.id),
+      sql.BigInt
+    )
     const resultBatchCTestSettings = (
-      await SQL!.request().query(`
+      await batch_req.query(`
 			SELECT 
 				Admin_BatchScheduleCTest.AdminBatchSchID AS id, 
 				Admin_CTestSettings.AdminCTestSettingID AS ctest_id,
@@ -179,23 +181,21 @@ export class ActivityRepository {
 			JOIN Admin_CTestSettings
         ON Admin_CTestSettings.CTestID = Admin_BatchScheduleCTest.CTestID 
         AND Admin_CTestSettings.AdminID = Admin_BatchSchedule.AdminID
-			WHERE Admin_BatchScheduleCTest.AdminBatchSchID IN (${
-        resultBatch.length === 0 ? "NULL" : resultBatch.map((x) => x.id).join(",")
-      })
+			WHERE Admin_BatchScheduleCTest.AdminBatchSchID IN (${batch_ids})
 		;`)
     ).recordset
     const resultBatchSurveySettings = (
-      await SQL!.request().query(`
+      await batch_req.query(`
 			SELECT 
 				AdminBatchSchID AS id, 
 				SurveyID AS survey_id, 
 				[Order] AS [order]
 			FROM Admin_BatchScheduleSurvey
-			WHERE AdminBatchSchID IN (${resultBatch.length === 0 ? "NULL" : resultBatch.map((x) => x.id).join(",")})
+			WHERE AdminBatchSchID IN (${batch_ids})
 		;`)
     ).recordset
     const resultBatchSchedule = (
-      await SQL!.request().query(`
+      await batch_req.query(`
 			SELECT
 				AdminBatchSchID AS id, 
 				ScheduleDate as start_date,
@@ -214,11 +214,11 @@ export class ActivityRepository {
 				) AS custom_time
 			FROM Admin_BatchSchedule
 			WHERE IsDeleted = 0 
-				AND AdminBatchSchID IN (${resultBatch.length === 0 ? "NULL" : resultBatch.map((x) => x.id).join(",")})
+				AND AdminBatchSchID IN (${batch_ids})
 		;`)
     ).recordset
     const resultSurvey = (
-      await SQL!.request().query(`
+      await req.query(`
 			SELECT 
 				SurveyID AS id, 
 				AdminID AS aid,
@@ -227,12 +227,19 @@ export class ActivityRepository {
 			FROM Survey
 			WHERE IsDeleted = 0 
         ${(ctest_id ?? 0) > 0 || (group_id ?? 0) > 0 ? `AND 1=0` : ``}
-				${survey_id ?? 0 > 0 ? `AND SurveyID = '${survey_id}'` : ``}
-				${admin_id ?? 0 > 0 ? `AND AdminID = '${admin_id}'` : ``}
+				${survey_id ?? 0 > 0 ? `AND SurveyID = @survey_id` : ``}
+				${admin_id ?? 0 > 0 ? `AND AdminID = @admin_id` : ``}
 		;`)
     ).recordset
+    const survey_req = SQL!.request()
+    const survey_ids = Parameter_list(
+      survey_req,
+      "survey_id",
+      resultSurvey.map((x) => x.id),
+      sql.BigInt
+    )
     const resultSurveyQuestions = (
-      await SQL!.request().query(`
+      await survey_req.query(`
 			SELECT 
 				SurveyID AS id,
 				QuestionText AS text, 
@@ -248,11 +255,11 @@ export class ActivityRepository {
 				) AS options
 				FROM SurveyQuestions
 				WHERE IsDeleted = 0 
-					AND SurveyID IN (${resultSurvey.length === 0 ? "NULL" : resultSurvey.map((x) => x.id).join(",")})
+					AND SurveyID IN (${survey_ids})
 		;`)
     ).recordset
     const resultSurveySchedule = (
-      await SQL!.request().query(`
+      await survey_req.query(`
 			SELECT
 				SurveyID AS id, 
 				ScheduleDate as start_date,
@@ -271,11 +278,11 @@ export class ActivityRepository {
 				) AS custom_time
 			FROM Admin_SurveySchedule
 			WHERE IsDeleted = 0 
-				AND Admin_SurveySchedule.SurveyID IN (${resultSurvey.length === 0 ? "NULL" : resultSurvey.map((x) => x.id).join(",")})
+				AND Admin_SurveySchedule.SurveyID IN (${survey_ids})
 		;`)
     ).recordset
     const resultTest = (
-      await SQL!.request().query(`
+      await req.query(`
       SELECT 
         AdminCTestSettingID AS id,
 				AdminID AS aid,
@@ -285,12 +292,25 @@ export class ActivityRepository {
       WHERE Status IN (1, NULL)
         AND CTestID NOT IN (4, 13)
         ${(survey_id ?? 0) > 0 || (group_id ?? 0) > 0 ? `AND 1=0` : ``}
-				${ctest_id ?? 0 > 0 ? `AND AdminCTestSettingID = '${ctest_id}'` : ``}
-				${admin_id ?? 0 > 0 ? `AND AdminID = '${admin_id}'` : ``}
+				${ctest_id ?? 0 > 0 ? `AND AdminCTestSettingID = @ctest_id` : ``}
+				${admin_id ?? 0 > 0 ? `AND AdminID = @admin_id` : ``}
 		;`)
     ).recordset
+    const test_req = SQL!.request()
+    const test_ids = Parameter_list(
+      test_req,
+      "ctest_id",
+      resultTest.map((x) => x.id),
+      sql.BigInt
+    )
+    const test_admin_ids = Parameter_list(
+      test_req,
+      "admin_id",
+      resultTest.map((x) => x.aid),
+      sql.BigInt
+    )
     const resultTestJewelsSettings = (
-      await SQL!.request().query(`
+      await test_req.query(`
 			SELECT 
 				('a') AS type,
 				NoOfSeconds_Beg AS beginner_seconds,
@@ -305,9 +325,7 @@ export class ActivityRepository {
 				Y_NoOfChangesInLevel AS y_changes_in_level_count,
 				Y_NoOfShapes AS y_shape_count
 			FROM Admin_JewelsTrailsASettings
-			WHERE Admin_JewelsTrailsASettings.AdminID IN (${
-        resultTest.length === 0 ? "NULL" : resultTest.map((x) => x.aid).join(",")
-      })
+			WHERE Admin_JewelsTrailsASettings.AdminID IN (${test_admin_ids})
 			UNION ALL
 			SELECT 
 				('b') AS type,
@@ -323,13 +341,11 @@ export class ActivityRepository {
 				Y_NoOfChangesInLevel AS y_changes_in_level_count,
 				Y_NoOfShapes AS y_shape_count
 			FROM Admin_JewelsTrailsBSettings
-			WHERE Admin_JewelsTrailsBSettings.AdminID IN (${
-        resultTest.length === 0 ? "NULL" : resultTest.map((x) => x.aid).join(",")
-      })
+			WHERE Admin_JewelsTrailsBSettings.AdminID IN (${test_admin_ids})
 		;`)
     ).recordset
     const resultTestSchedule = (
-      await SQL!.request().query(`
+      await test_req.query(`
 			SELECT
 				AdminCTestSettingID as setting_id,
 				ScheduleDate as start_date,
@@ -351,13 +367,17 @@ export class ActivityRepository {
         ON Admin_CTestSettings.AdminID = Admin_CTestSchedule.AdminID 
         AND Admin_CTestSettings.CTestID = Admin_CTestSchedule.CTestID
 			WHERE IsDeleted = 0 
-				AND AdminCTestSettingID IN (${resultTest.length === 0 ? "NULL" : resultTest.map((x) => x.id)})
+				AND AdminCTestSettingID IN (${test_ids})
 		;`)
     ).recordset
 
     // FIXME: Shouldn't return deleted surveys/ctests in group settings.
 
-    return [...resultBatch, ...resultSurvey, ...resultTest].map((raw: any) => {
+    // Only keep the Activities belonging to the specific Study, if requested.
+    const _scope =
+      !!id && Identifier_unpack(id)[0] === (<any>Study).name ? await StudyRepository._scope(id, "Activity") : () => true
+
+    const output = [...resultBatch, ...resultSurvey, ...resultTest].map((raw: any) => {
       const obj = new Activity()
       if (raw.type === "batch") {
         obj.id = ActivityRepository._pack_id({
@@ -431,6 +451,7 @@ export class ActivityRepository {
       }
       return obj
     })
+    return output.filter((x) => _scope(x.id!))
   }
 
   /**
@@ -448,6 +469,7 @@ export class ActivityRepository {
     object: Activity
   ): Promise<string> {
     const { admin_id } = StudyRepository._unpack_id(study_id)
+    await _validate_settings(object.spec, object.settings)
     const transaction = SQL!.transaction()
     await transaction.begin()
     try {
@@ -459,7 +481,14 @@ export class ActivityRepository {
           throw new Error("400.settings-not-specified")
 
         // Create the schedule.
-        const result1 = await transaction.request().query(`
+        const req1 = transaction.request()
+        req1.input("admin_id", sql.BigInt, admin_id)
+        req1.input("name", sql.NVarChar, object.name || "new_group")
+        object.schedule.forEach((sched, idx) => {
+          req1.input(`start_date${idx}`, sql.NVarChar, sched.start_date)
+          req1.input(`time${idx}`, sql.NVarChar, sched.time)
+        })
+        const result1 = await req1.query(`
 					INSERT INTO Admin_BatchSchedule (
 						AdminID,
 						BatchName,
@@ -470,11 +499,11 @@ export class ActivityRepository {
 					OUTPUT INSERTED.AdminBatchSchId
 					VALUES ${object.schedule
             .map(
-              (sched) => `(
-						${admin_id}, 
-						'${object.name ? _escapeMSSQL(object.name) : "new_group"}',
-						'${sched.start_date}',
-						'${sched.time}',
+              (sched, idx) => `(
+						@admin_id, 
+						@name,
+						@start_date${idx},
+						@time${idx},
 						${
               [
                 "hourly",
@@ -506,16 +535,21 @@ export class ActivityRepository {
             .map((x) => x[0].map((y: any) => [y, x[1]]))
         )
         if (ctime.length > 0) {
-          const result2 = await transaction.request().query(`
+          const req2 = transaction.request()
+          ctime.forEach((x, idx) => {
+            req2.input(`sched_id${idx}`, sql.BigInt, result1.recordset[x[1]]["AdminBatchSchId"])
+            req2.input(`time${idx}`, sql.NVarChar, x[0])
+          })
+          const result2 = await req2.query(`
 						INSERT INTO Admin_BatchScheduleCustomTime (
 							AdminBatchSchId,
 							Time
 						)
 						VALUES ${ctime
               .map(
-                (x) => `(
-							${result1.recordset[x[1]]["AdminBatchSchId"]},
-							'${x[0]}'
+                (_, idx) => `(
+							@sched_id${idx},
+							@time${idx}
 						)`
               )
               .join(", ")}
@@ -528,17 +562,20 @@ export class ActivityRepository {
         if (items.filter((x) => x.group_id > 0).length > 0) throw new Error("400.nested-objects-unsupported")
 
         // Create the CTest and Survey lists.
-        const _ctest_select = (x_ctest_id: number): string =>
-          `SELECT CTestID FROM Admin_CTestSettings WHERE AdminCTestSettingID = ${x_ctest_id} AND Status = 1`
+        const _ctest_select = (idx: number): string =>
+          `SELECT CTestID FROM Admin_CTestSettings WHERE AdminCTestSettingID = @ctest_id${idx} AND Status = 1`
         if (items.filter((x) => x.ctest_id > 0).length > 0) {
-          const result3 = await transaction.request().query(`
+          const req3 = transaction.request()
+          req3.input("batch_id", sql.BigInt, batch_id)
+          items.filter((x) => x.ctest_id > 0).forEach((x) => req3.input(`ctest_id${x.idx}`, sql.BigInt, x.ctest_id))
+          const result3 = await req3.query(`
 						INSERT INTO Admin_BatchScheduleCTest (AdminBatchSchID, CTestID, Version, [Order]) 
 						VALUES ${items
               .filter((x) => x.ctest_id > 0)
               .map(
                 (x) => `(
-							${batch_id},
-							(${_ctest_select(x.ctest_id)}),
+							@batch_id,
+							(${_ctest_select(x.idx)}),
 							-1,
 							${x.idx + 1}
 						)`
@@ -550,14 +587,17 @@ export class ActivityRepository {
         }
         if (items.filter((x) => x.survey_id > 0).length > 0) {
           // FIXME: Shouldn't be able to add deleted surveys.
-          const result4 = await transaction.request().query(`
+          const req4 = transaction.request()
+          req4.input("batch_id", sql.BigInt, batch_id)
+          items.filter((x) => x.survey_id > 0).forEach((x) => req4.input(`survey_id${x.idx}`, sql.BigInt, x.survey_id))
+          const result4 = await req4.query(`
 						INSERT INTO Admin_BatchScheduleSurvey (AdminBatchSchID, SurveyID, [Order]) 
 						VALUES ${items
               .filter((x) => x.survey_id > 0)
               .map(
                 (x) => `(
-							${batch_id},
-							${x.survey_id},
+							@batch_id,
+							@survey_id${x.idx},
 							${x.idx + 1}
 						)`
               )
@@ -568,22 +608,35 @@ export class ActivityRepository {
         }
 
         // Return the new ID.
-        await transaction.commit()
-        return ActivityRepository._pack_id({
+        const activity_id = ActivityRepository._pack_id({
           group_id: batch_id,
         })
+        await StudyRepository._link(study_id, "Activity", activity_id, transaction)
+        await transaction.commit()
+        return activity_id
       } else if (object.spec === "lamp.survey" /* survey */) {
-        const result1 = await transaction.request().query(`
+        const result1 = await transaction
+          .request()
+          .input("admin_id", sql.BigInt, admin_id)
+          .input("name", sql.NVarChar, object.name || "new_survey").query(`
 					INSERT INTO Survey (AdminID, SurveyName) 
 					OUTPUT INSERTED.SurveyID
-					VALUES (${admin_id}, '${object.name ? _escapeMSSQL(object.name) : "new_survey"}')
+					VALUES (@admin_id, @name)
 				;`)
         if (result1.rowsAffected[0] === 0) throw new Error("400.create-failed")
         const survey_id = Number.parse(result1.recordset[0]["SurveyID"]) ?? -1
 
         // Create the questions.
         if (Array.isArray(object.settings) && object.settings.length > 0) {
-          const result2 = await transaction.request().query(`
+          const req2 = transaction.request()
+          req2.input("survey_id", sql.BigInt, survey_id)
+          object.settings.forEach((q, idx) => {
+            req2.input(`text${idx}`, sql.NVarChar, q.text)
+            req2.input(`threshold${idx}`, sql.Int, _opMatch(q.text)?.tr ?? null)
+            req2.input(`operator${idx}`, sql.NVarChar, _opMatch(q.text)?.op ?? null)
+            req2.input(`message${idx}`, sql.NVarChar, _opMatch(q.text)?.msg ?? null)
+          })
+          const result2 = await req2.query(`
 						INSERT INTO SurveyQuestions (
 							SurveyID, QuestionText, AnswerType, 
 							Threshold, Operator, Message
@@ -591,13 +644,13 @@ export class ActivityRepository {
 						OUTPUT INSERTED.QuestionID
 						VALUES ${object.settings
               .map(
-                (q) => `(
-							${survey_id},
-							'${_escapeMSSQL(q.text)}',
+                (q, idx) => `(
+							@survey_id,
+							@text${idx},
 							${["likert", "list", "boolean", "clock", "years", "months", "days", "text"].indexOf(q.type) + 1},
-							${_opMatch(q.text)?.tr ?? "NULL"},
-							${_opMatch(q.text)?.op ?? "NULL"},
-							${_opMatch(q.text)?.msg ?? "NULL"}
+							@threshold${idx},
+							@operator${idx},
+							@message${idx}
 						)`
               )
               .join(", ")}
@@ -612,13 +665,18 @@ export class ActivityRepository {
               .map((x) => x[0].map((y: any) => [y, x[1]]))
           )
           if (opts.length > 0) {
-            const result21 = await transaction.request().query(`
+            const req21 = transaction.request()
+            opts.forEach((q, idx) => {
+              req21.input(`question_id${idx}`, sql.BigInt, result2.recordset[q[1]]["QuestionID"])
+              req21.input(`option${idx}`, sql.NVarChar, q[0])
+            })
+            const result21 = await req21.query(`
 							INSERT INTO SurveyQuestionOptions (QuestionID, OptionText) 
 							VALUES ${opts
                 .map(
-                  (q) => `(
-								${result2.recordset[q[1]]["QuestionID"]},
-								'${_escapeMSSQL(q[0])}'
+                  (_, idx) => `(
+								@question_id${idx},
+								@option${idx}
 							)`
                 )
                 .join(", ")}
@@ -630,7 +688,14 @@ export class ActivityRepository {
 
         // Create the schedule.
         if (Array.isArray(object.schedule) && object.schedule.length > 0) {
-          const result3 = await transaction.request().query(`
+          const req3 = transaction.request()
+          req3.input("admin_id", sql.BigInt, admin_id)
+          req3.input("survey_id", sql.BigInt, survey_id)
+          object.schedule.forEach((sched, idx) => {
+            req3.input(`start_date${idx}`, sql.NVarChar, sched.start_date)
+            req3.input(`time${idx}`, sql.NVarChar, sched.time)
+          })
+          const result3 = await req3.query(`
 						INSERT INTO Admin_SurveySchedule (
 							AdminID,
 							SurveyID,
@@ -641,11 +706,11 @@ export class ActivityRepository {
 						OUTPUT INSERTED.AdminSurveySchId
 						VALUES ${object.schedule
               .map(
-                (sched) => `(
-							${admin_id}, 
-							${survey_id},
-							'${sched.start_date}',
-							'${sched.time}',
+                (sched, idx) => `(
+							@admin_id, 
+							@survey_id,
+							@start_date${idx},
+							@time${idx},
 							${
                 [
                   "hourly",
@@ -676,16 +741,21 @@ export class ActivityRepository {
               .map((x) => x[0].map((y: any) => [y, x[1]]))
           )
           if (ctime.length > 0) {
-            const result4 = await transaction.request().query(`
+            const req4 = transaction.request()
+            ctime.forEach((x, idx) => {
+              req4.input(`sched_id${idx}`, sql.BigInt, result3.recordset[x[1]]["AdminSurveySchId"])
+              req4.input(`time${idx}`, sql.NVarChar, x[0])
+            })
+            const result4 = await req4.query(`
 							INSERT INTO Admin_SurveyScheduleCustomTime (
 								AdminSurveySchId,
 								Time
 							)
 							VALUES ${ctime
                 .map(
-                  (x) => `(
-								${result3.recordset[x[1]]["AdminSurveySchId"]},
-								'${x[0]}'
+                  (_, idx) => `(
+								@sched_id${idx},
+								@time${idx}
 							)`
                 )
                 .join(", ")}
@@ -695,20 +765,25 @@ export class ActivityRepository {
         }
 
         // Return the new ID.
-        await transaction.commit()
-        return ActivityRepository._pack_id({
+        const activity_id = ActivityRepository._pack_id({
           survey_id: survey_id,
         })
+        await StudyRepository._link(study_id, "Activity", activity_id, transaction)
+        await transaction.commit()
+        return activity_id
       } /* cognitive test */ else {
         const ctest_id = ActivityIndex.find((x) => x.Name === object.spec)?.[0]?.LegacyCTestID ?? -1
 
         // First activate the CTest if previously inactive.
-        const result = await transaction.request().query(`
+        const result = await transaction
+          .request()
+          .input("admin_id", sql.BigInt, admin_id)
+          .input("ctest_id", sql.BigInt, ctest_id).query(`
 					UPDATE Admin_CTestSettings 
 					SET Status = 1 
 					WHERE Status = 0
-            AND AdminID = ${admin_id} 
-            AND CTestID = ${ctest_id}
+            AND AdminID = @admin_id 
+            AND CTestID = @ctest_id
           OUTPUT UPDATED.*
 				;`)
         if (result.rowsAffected[0] === 0) throw new Error("400.activity-exists-cannot-overwrite")
@@ -717,23 +792,36 @@ export class ActivityRepository {
         // Configure Jewels A or B if needed.
         if ((ctest_id === 17 || ctest_id === 18) && !!object.settings) {
           const isA = ctest_id === 17
-          const result2 = await transaction.request().query(`
+          const req2 = transaction.request()
+          req2.input("admin_id", sql.BigInt, admin_id)
+          req2.input("beginner_seconds", sql.Int, object.settings.beginner_seconds || (isA ? 90 : 180))
+          req2.input("intermediate_seconds", sql.Int, object.settings.intermediate_seconds || (isA ? 30 : 90))
+          req2.input("advanced_seconds", sql.Int, object.settings.advanced_seconds || (isA ? 25 : 60))
+          req2.input("expert_seconds", sql.Int, object.settings.expert_seconds || (isA ? 15 : 45))
+          req2.input("diamond_count", sql.Int, object.settings.diamond_count || (isA ? 25 : 25))
+          req2.input("shape_count", sql.Int, object.settings.shape_count || (isA ? 1 : 2))
+          req2.input("bonus_point_count", sql.Int, object.settings.bonus_point_count || (isA ? 50 : 50))
+          req2.input("x_changes_in_level_count", sql.Int, object.settings.x_changes_in_level_count || (isA ? 1 : 1))
+          req2.input("x_diamond_count", sql.Int, object.settings.x_diamond_count || (isA ? 1 : 1))
+          req2.input("y_changes_in_level_count", sql.Int, object.settings.y_changes_in_level_count || (isA ? 1 : 1))
+          req2.input("y_shape_count", sql.Int, object.settings.y_shape_count || (isA ? 1 : 2))
+          const result2 = await req2.query(`
 						MERGE Admin_JewelsTrails${isA ? "A" : "B"}Settings WITH (HOLDLOCK) AS Target
-						USING (VALUES (${admin_id})) AS Source(AdminID)
-							ON Target.AdminID = ${admin_id}
+						USING (VALUES (@admin_id)) AS Source(AdminID)
+							ON Target.AdminID = @admin_id
 						WHEN MATCHED THEN
 							UPDATE SET
-								NoOfSeconds_Beg = ${object.settings.beginner_seconds || (isA ? 90 : 180)},
-								NoOfSeconds_Int = ${object.settings.intermediate_seconds || (isA ? 30 : 90)},
-								NoOfSeconds_Adv = ${object.settings.advanced_seconds || (isA ? 25 : 60)},
-								NoOfSeconds_Exp = ${object.settings.expert_seconds || (isA ? 15 : 45)},
-								NoOfDiamonds = ${object.settings.diamond_count || (isA ? 25 : 25)},
-								NoOfShapes = ${object.settings.shape_count || (isA ? 1 : 2)},
-								NoOfBonusPoints = ${object.settings.bonus_point_count || (isA ? 50 : 50)},
-								X_NoOfChangesInLevel = ${object.settings.x_changes_in_level_count || (isA ? 1 : 1)},
-								X_NoOfDiamonds = ${object.settings.x_diamond_count || (isA ? 1 : 1)},
-								Y_NoOfChangesInLevel = ${object.settings.y_changes_in_level_count || (isA ? 1 : 1)},
-								Y_NoOfShapes = ${object.settings.y_shape_count || (isA ? 1 : 2)}
+								NoOfSeconds_Beg = @beginner_seconds,
+								NoOfSeconds_Int = @intermediate_seconds,
+								NoOfSeconds_Adv = @advanced_seconds,
+								NoOfSeconds_Exp = @expert_seconds,
+								NoOfDiamonds = @diamond_count,
+								NoOfShapes = @shape_count,
+								NoOfBonusPoints = @bonus_point_count,
+								X_NoOfChangesInLevel = @x_changes_in_level_count,
+								X_NoOfDiamonds = @x_diamond_count,
+								Y_NoOfChangesInLevel = @y_changes_in_level_count,
+								Y_NoOfShapes = @y_shape_count
 						WHEN NOT MATCHED THEN
 							INSERT (
 								AdminID, NoOfSeconds_Beg, NoOfSeconds_Int, NoOfSeconds_Adv,
@@ -741,18 +829,18 @@ export class ActivityRepository {
 								X_NoOfChangesInLevel, X_NoOfDiamonds, Y_NoOfChangesInLevel, 
 								Y_NoOfShapes
 							) VALUES (
-								${admin_id},
-								${object.settings.beginner_seconds || (isA ? 90 : 180)},
-								${object.settings.intermediate_seconds || (isA ? 30 : 90)},
-								${object.settings.advanced_seconds || (isA ? 25 : 60)},
-								${object.settings.expert_seconds || (isA ? 15 : 45)},
-								${object.settings.diamond_count || (isA ? 25 : 25)},
-								${object.settings.shape_count || (isA ? 1 : 2)},
-								${object.settings.bonus_point_count || (isA ? 50 : 50)},
-								${object.settings.x_changes_in_level_count || (isA ? 1 : 1)},
-								${object.settings.x_diamond_count || (isA ? 1 : 1)},
-								${object.settings.y_changes_in_level_count || (isA ? 1 : 1)},
-								${object.settings.y_shape_count || (isA ? 1 : 2)}
+								@admin_id,
+								@beginner_seconds,
+								@intermediate_seconds,
+								@advanced_seconds,
+								@expert_seconds,
+								@diamond_count,
+								@shape_count,
+								@bonus_point_count,
+								@x_changes_in_level_count,
+								@x_diamond_count,
+								@y_changes_in_level_count,
+								@y_shape_count
 							)
 					;`)
           if (result2.rowsAffected[0] === 0) throw new Error("400.create-failed-due-to-malformed-parameters-settings")
@@ -760,7 +848,14 @@ export class ActivityRepository {
 
         // Create the schedule.
         if (Array.isArray(object.schedule) && object.schedule.length > 0) {
-          const result3 = await transaction.request().query(`
+          const req3 = transaction.request()
+          req3.input("admin_id", sql.BigInt, admin_id)
+          req3.input("ctest_id", sql.BigInt, ctest_id)
+          object.schedule.forEach((sched, idx) => {
+            req3.input(`start_date${idx}`, sql.NVarChar, sched.start_date)
+            req3.input(`time${idx}`, sql.NVarChar, sched.time)
+          })
+          const result3 = await req3.query(`
 						INSERT INTO Admin_CTestSchedule (
 							AdminID,
 							CTestID,
@@ -772,12 +867,12 @@ export class ActivityRepository {
 						OUTPUT INSERTED.AdminCTestSchId
 						VALUES ${object.schedule
               .map(
-                (sched) => `(
-							${admin_id}, 
-							${ctest_id},
+                (sched, idx) => `(
+							@admin_id, 
+							@ctest_id,
 							-1,
-							'${sched.start_date}',
-							'${sched.time}',
+							@start_date${idx},
+							@time${idx},
 							${
                 [
                   "hourly",
@@ -808,16 +903,21 @@ export class ActivityRepository {
               .map((x) => x[0].map((y: any) => [y, x[1]]))
           )
           if (ctime.length > 0) {
-            const result4 = await transaction.request().query(`
+            const req4 = transaction.request()
+            ctime.forEach((x, idx) => {
+              req4.input(`sched_id${idx}`, sql.BigInt, result3.recordset[x[1]]["AdminCTestSchId"])
+              req4.input(`time${idx}`, sql.NVarChar, x[0])
+            })
+            const result4 = await req4.query(`
 							INSERT INTO Admin_CTestScheduleCustomTime (
 								AdminCTestSchId,
 								Time
 							)
 							VALUES ${ctime
                 .map(
-                  (x) => `(
-								${result3.recordset[x[1]]["AdminCTestSchId"]},
-								'${x[0]}'
+                  (_, idx) => `(
+								@sched_id${idx},
+								@time${idx}
 							)`
                 )
                 .join(", ")}
@@ -827,10 +927,12 @@ export class ActivityRepository {
         }
 
         // Return the new ID.
-        await transaction.commit()
-        return ActivityRepository._pack_id({
+        const activity_id = ActivityRepository._pack_id({
           ctest_id: _actual_setting_id,
         })
+        await StudyRepository._link(study_id, "Activity", activity_id, transaction)
+        await transaction.commit()
+        return activity_id
       }
     } catch (e) {
       await transaction.rollback()
@@ -856,6 +958,8 @@ export class ActivityRepository {
     const { ctest_id, survey_id, group_id } = ActivityRepository._unpack_id(activity_id)
 
     if (typeof object.spec === "string") throw new Error("400.update-failed-modifying-activityspec-is-illegal")
+    if (object.settings !== undefined)
+      await _validate_settings((await ActivityRepository._select(activity_id))[0]?.spec, object.settings)
 
     const transaction = SQL!.transaction()
     await transaction.begin()
@@ -863,11 +967,11 @@ export class ActivityRepository {
       // Set the deletion flag, without actually deleting the row.
       if (group_id > 0 /* group */) {
         // Verify that the item exists.
-        const result = await transaction.request().query(`
+        const result = await transaction.request().input("group_id", sql.BigInt, group_id).query(`
 					SELECT AdminBatchSchID 
 					FROM Admin_BatchSchedule 
 					WHERE IsDeleted = 0
-						AND AdminBatchSchID = ${group_id}
+						AND AdminBatchSchID = @group_id
 				;`)
         if (result.recordset.length === 0) throw new Error("404.object-not-found")
 
@@ -876,12 +980,17 @@ export class ActivityRepository {
           if (Array.isArray(object.schedule) && object.schedule.length !== 1)
             throw new Error("400.empty-duration-unsupported")
 
-          const result1 = await transaction.request().query(`
+          const req1 = transaction.request()
+          req1.input("group_id", sql.BigInt, group_id)
+          req1.input("name", sql.NVarChar, object.name)
+          req1.input("start_date", sql.NVarChar, object.schedule[0].start_date)
+          req1.input("time", sql.NVarChar, object.schedule[0].time)
+          const result1 = await req1.query(`
 						UPDATE Admin_BatchSchedule SET 
 							${[
-                !!object.name ? `BatchName = '${object.name}'` : null,
-                !!object.schedule[0].start_date ? `ScheduleDate = '${object.schedule[0].start_date}'` : null,
-                !!object.schedule[0].time ? `Time = '${object.schedule[0].time}'` : null,
+                !!object.name ? `BatchName = @name` : null,
+                !!object.schedule[0].start_date ? `ScheduleDate = @start_date` : null,
+                !!object.schedule[0].time ? `Time = @time` : null,
                 !!object.schedule[0].repeat_interval
                   ? `RepeatID = ${
                       [
@@ -904,23 +1013,26 @@ export class ActivityRepository {
                 .filter((x) => x !== null)
                 .join(", ")}
 						WHERE IsDeleted = 0
-							AND AdminBatchSchID = ${group_id}
+							AND AdminBatchSchID = @group_id
 					;`)
 
           // Modify custom times.
           if (Array.isArray(object.schedule[0].custom_time)) {
             const ctime = object.schedule[0].custom_time
-            const result2 = await transaction.request().query(`
+            const req2 = transaction.request()
+            req2.input("group_id", sql.BigInt, group_id)
+            ctime.forEach((x: any, idx: number) => req2.input(`time${idx}`, sql.NVarChar, x))
+            const result2 = await req2.query(`
 							MERGE INTO Admin_BatchScheduleCustomTime Target
 							USING (VALUES
-								${ctime.length === 0 ? "(NULL, NULL)" : ctime.map((x: any) => `(${group_id}, '${_escapeMSSQL(x)}')`).join(", ")}
+								${ctime.length === 0 ? "(NULL, NULL)" : ctime.map((_: any, idx: number) => `(@group_id, @time${idx})`).join(", ")}
 							) AS Source(AdminBatchSchID, Time)
 								ON Target.AdminBatchSchID = Source.AdminBatchSchID 
 								AND Target.Time = Source.Time
 							WHEN NOT MATCHED BY Target THEN
 								INSERT (AdminBatchSchID, Time) 
 								VALUES (Source.AdminBatchSchID, Source.Time)
-							WHEN NOT MATCHED BY Source AND Target.AdminBatchSchID = ${group_id} THEN 
+							WHEN NOT MATCHED BY Source AND Target.AdminBatchSchID = @group_id THEN 
 								DELETE
 							OUTPUT $ACTION, INSERTED.*, DELETED.*
 						;`)
@@ -942,14 +1054,18 @@ export class ActivityRepository {
 
           // FIXME: confirm survey/ctest not deleted first + exists!
 
-          const _ctest_select = `SELECT CTestID FROM Admin_CTestSettings WHERE AdminCTestSettingID = ${ctest_id}`
-          const result3 = await transaction.request().query(`
+          const _ctest_select = (idx: number): string =>
+            `SELECT CTestID FROM Admin_CTestSettings WHERE AdminCTestSettingID = @ctest_id${idx}`
+          const req3 = transaction.request()
+          req3.input("group_id", sql.BigInt, group_id)
+          ctest.forEach((x) => req3.input(`ctest_id${x.idx}`, sql.BigInt, x.ctest_id))
+          const result3 = await req3.query(`
 						MERGE INTO Admin_BatchScheduleCTest Target
 						USING (VALUES
 							${
                 ctest.length === 0
                   ? "(NULL, NULL, NULL)"
-                  : ctest.map((x) => `(${group_id}, (${_ctest_select}), ${x.idx + 1})`).join(", ")
+                  : ctest.map((x) => `(@group_id, (${_ctest_select(x.idx)}), ${x.idx + 1})`).join(", ")
               }
 						) AS Source(AdminBatchSchID, CTestID, [Order])
 							ON Target.AdminBatchSchID = Source.AdminBatchSchID 
@@ -959,18 +1075,21 @@ export class ActivityRepository {
 						WHEN NOT MATCHED BY Target THEN
 							INSERT (AdminBatchSchID, CTestID, Version, [Order]) 
 							VALUES (Source.AdminBatchSchID, Source.CTestID, -1, Source.[Order])
-						WHEN NOT MATCHED BY Source AND Target.AdminBatchSchID = ${group_id} THEN 
+						WHEN NOT MATCHED BY Source AND Target.AdminBatchSchID = @group_id THEN 
 							DELETE
 						OUTPUT $ACTION, INSERTED.*, DELETED.*
 					;`)
 
-          const result4 = await transaction.request().query(`
+          const req4 = transaction.request()
+          req4.input("group_id", sql.BigInt, group_id)
+          survey.forEach((x) => req4.input(`survey_id${x.idx}`, sql.BigInt, x.survey_id))
+          const result4 = await req4.query(`
 						MERGE INTO Admin_BatchScheduleSurvey Target
 						USING (VALUES
 							${
                 survey.length === 0
                   ? "(NULL, NULL, NULL)"
-                  : survey.map((x: any) => `(${group_id}, ${x.survey_id}, ${x.idx + 1})`).join(", ")
+                  : survey.map((x) => `(@group_id, @survey_id${x.idx}, ${x.idx + 1})`).join(", ")
               }
 						) AS Source(AdminBatchSchID, SurveyID, [Order])
 							ON Target.AdminBatchSchID = Source.AdminBatchSchID 
@@ -980,7 +1099,7 @@ export class ActivityRepository {
 						WHEN NOT MATCHED BY Target THEN
 							INSERT (AdminBatchSchID, SurveyID, [Order]) 
 							VALUES (Source.AdminBatchSchID, Source.SurveyID, Source.[Order])
-						WHEN NOT MATCHED BY Source AND Target.AdminBatchSchID = ${group_id} THEN 
+						WHEN NOT MATCHED BY Source AND Target.AdminBatchSchID = @group_id THEN 
 							DELETE
 						OUTPUT $ACTION, INSERTED.*, DELETED.*
 					;`)
@@ -991,33 +1110,42 @@ export class ActivityRepository {
       } else if (survey_id > 0 /* survey */) {
         // Modify survey name or verify that the item exists.
         if (typeof object.name === "string") {
-          const result0 = await transaction.request().query(`
+          const result0 = await transaction
+            .request()
+            .input("survey_id", sql.BigInt, survey_id)
+            .input("name", sql.NVarChar, object.name).query(`
 						UPDATE Survey SET 
-							SurveyName = '${_escapeMSSQL(object.name)}'
+							SurveyName = @name
 						WHERE IsDeleted = 0
-							AND SurveyID = ${survey_id}
+							AND SurveyID = @survey_id
 					;`)
           if (result0.rowsAffected[0] === 0) throw new Error("404.object-not-found")
         } else {
-          const result0 = await transaction.request().query(`
+          const result0 = await transaction.request().input("survey_id", sql.BigInt, survey_id).query(`
 						SELECT SurveyID 
 						FROM Survey 
 						WHERE IsDeleted = 0
-							AND SurveyID = ${survey_id}
+							AND SurveyID = @survey_id
 					;`)
           if (result0.recordset.length === 0) throw new Error("404.object-not-found")
         }
 
         // Modify survey schedule.
         if (Array.isArray(object.schedule)) {
-          const result2 = await transaction.request().query(`
+          const result2 = await transaction.request().input("survey_id", sql.BigInt, survey_id).query(`
 						UPDATE Admin_SurveySchedule 
 						SET IsDeleted = 1
 						WHERE IsDeleted = 0
-							AND SurveyID = ${survey_id}
+							AND SurveyID = @survey_id
 					;`)
           if (object.schedule.length > 0) {
-            const result3 = await transaction.request().query(`
+            const req3 = transaction.request()
+            req3.input("survey_id", sql.BigInt, survey_id)
+            object.schedule.forEach((sched: any, idx: number) => {
+              req3.input(`start_date${idx}`, sql.NVarChar, sched.start_date)
+              req3.input(`time${idx}`, sql.NVarChar, sched.time)
+            })
+            const result3 = await req3.query(`
 							INSERT INTO Admin_SurveySchedule (
 								AdminID,
 								SurveyID,
@@ -1028,15 +1156,15 @@ export class ActivityRepository {
 							OUTPUT INSERTED.AdminSurveySchId
 							VALUES ${object.schedule
                 .map(
-                  (sched: any) => `(
+                  (sched: any, idx: number) => `(
 								(
                   SELECT AdminID
                   FROM Survey
-                  WHERE SurveyID = ${survey_id}
+                  WHERE SurveyID = @survey_id
 							  ),
-								${survey_id},
-								'${sched.start_date}',
-								'${sched.time}',
+								@survey_id,
+								@start_date${idx},
+								@time${idx},
 								${
                   [
                     "hourly",
@@ -1067,16 +1195,21 @@ export class ActivityRepository {
                 .map((x: any) => x[0].map((y: any) => [y, x[1]]))
             )
             if (ctime.length > 0) {
-              const result4 = await transaction.request().query(`
+              const req4 = transaction.request()
+              ctime.forEach((x, idx) => {
+                req4.input(`sched_id${idx}`, sql.BigInt, result3.recordset[x[1]]["AdminSurveySchId"])
+                req4.input(`time${idx}`, sql.NVarChar, x[0])
+              })
+              const result4 = await req4.query(`
 								INSERT INTO Admin_SurveyScheduleCustomTime (
 									AdminSurveySchId,
 									Time
 								)
 								VALUES ${ctime
                   .map(
-                    (x) => `(
-									${result3.recordset[x[1]]["AdminSurveySchId"]},
-									'${x[0]}'
+                    (_, idx) => `(
+									@sched_id${idx},
+									@time${idx}
 								)`
                   )
                   .join(", ")}
@@ -1088,21 +1221,24 @@ export class ActivityRepository {
 
         // Modify survey questions.
         if (Array.isArray(object.settings)) {
-          const result3 = await transaction.request().query(`
+          const result3 = await transaction.request().input("survey_id", sql.BigInt, survey_id).query(`
 						UPDATE SurveyQuestions 
 						SET IsDeleted = 1
 						WHERE IsDeleted = 0
-							AND SurveyID = ${survey_id}
+							AND SurveyID = @survey_id
 					;`)
           if (object.settings.length > 0) {
-            const result2 = await transaction.request().query(`
+            const req2 = transaction.request()
+            req2.input("survey_id", sql.BigInt, survey_id)
+            object.settings.forEach((q: any, idx: number) => req2.input(`text${idx}`, sql.NVarChar, q.text))
+            const result2 = await req2.query(`
 							INSERT INTO SurveyQuestions (SurveyID, QuestionText, AnswerType) 
 							OUTPUT INSERTED.QuestionID
 							VALUES ${object.settings
                 .map(
-                  (q: any) => `(
-								${survey_id},
-								'${_escapeMSSQL(q.text)}',
+                  (q: any, idx: number) => `(
+								@survey_id,
+								@text${idx},
 								${["likert", "list", "boolean", "clock", "years", "months", "days", "text"].indexOf(q.type) + 1}
 							)`
                 )
@@ -1118,13 +1254,18 @@ export class ActivityRepository {
                 .map((x: any) => x[0].map((y: any) => [y, x[1]]))
             )
             if (opts.length > 0) {
-              const result21 = await transaction.request().query(`
+              const req21 = transaction.request()
+              opts.forEach((q, idx) => {
+                req21.input(`question_id${idx}`, sql.BigInt, result2.recordset[q[1]]["QuestionID"])
+                req21.input(`option${idx}`, sql.NVarChar, q[0])
+              })
+              const result21 = await req21.query(`
 								INSERT INTO SurveyQuestionOptions (QuestionID, OptionText) 
 								VALUES ${opts
                   .map(
-                    (q) => `(
-									${result2.recordset[q[1]]["QuestionID"]},
-									'${_escapeMSSQL(q[0])}'
+                    (_, idx) => `(
+									@question_id${idx},
+									@option${idx}
 								)`
                   )
                   .join(", ")}
@@ -1139,33 +1280,39 @@ export class ActivityRepository {
         return {}
       } /* cognitive test */ else {
         // Verify that the item exists.
-        const result = await transaction.request().query(`
+        const result = await transaction.request().input("ctest_id", sql.BigInt, ctest_id).query(`
 					SELECT AdminID, CTestID 
 					FROM Admin_CTestSettings 
 					WHERE Status = 1
-						AND AdminCTestSettingID = ${ctest_id}
+						AND AdminCTestSettingID = @ctest_id
 				;`)
         if (result.recordset.length === 0) throw new Error("404.object-not-found")
 
         // Modify ctest schedule.
         if (Array.isArray(object.schedule)) {
-          const result2 = await transaction.request().query(`
+          const result2 = await transaction.request().input("ctest_id", sql.BigInt, ctest_id).query(`
 						UPDATE Admin_CTestSchedule 
 						SET IsDeleted = 1
 						WHERE IsDeleted = 0
 							AND AdminID IN (
 								SELECT AdminID
 								FROM Admin_CTestSettings
-								WHERE AdminCTestSettingID = ${ctest_id}
+								WHERE AdminCTestSettingID = @ctest_id
 							)
 							AND CTestID IN (
 								SELECT CTestID
 								FROM Admin_CTestSettings
-								WHERE AdminCTestSettingID = ${ctest_id}
+								WHERE AdminCTestSettingID = @ctest_id
 							)
 					;`)
           if (object.schedule.length > 0) {
-            const result3 = await transaction.request().query(`
+            const req3 = transaction.request()
+            req3.input("ctest_id", sql.BigInt, ctest_id)
+            object.schedule.forEach((sched: any, idx: number) => {
+              req3.input(`start_date${idx}`, sql.NVarChar, sched.start_date)
+              req3.input(`time${idx}`, sql.NVarChar, sched.time)
+            })
+            const result3 = await req3.query(`
 							INSERT INTO Admin_CTestSchedule (
 								AdminID,
 								CTestID,
@@ -1177,20 +1324,20 @@ export class ActivityRepository {
 							OUTPUT INSERTED.AdminCTestSchId
 							VALUES ${object.schedule
                 .map(
-                  (sched: any) => `(
+                  (sched: any, idx: number) => `(
 								(
                   SELECT AdminID
                   FROM Admin_CTestSettings
-                  WHERE AdminCTestSettingID = ${ctest_id}
+                  WHERE AdminCTestSettingID = @ctest_id
 							  ), 
 								(
                   SELECT CTestID
                   FROM Admin_CTestSettings
-                  WHERE AdminCTestSettingID = ${ctest_id}
+                  WHERE AdminCTestSettingID = @ctest_id
 							  ), 
 								-1,
-								'${sched.start_date}',
-								'${sched.time}',
+								@start_date${idx},
+								@time${idx},
 								${
                   [
                     "hourly",
@@ -1221,16 +1368,21 @@ export class ActivityRepository {
                 .map((x: any) => x[0].map((y: any) => [y, x[1]]))
             )
             if (ctime.length > 0) {
-              const result4 = await transaction.request().query(`
+              const req4 = transaction.request()
+              ctime.forEach((x, idx) => {
+                req4.input(`sched_id${idx}`, sql.BigInt, result3.recordset[x[1]]["AdminCTestSchId"])
+                req4.input(`time${idx}`, sql.NVarChar, x[0])
+              })
+              const result4 = await req4.query(`
 								INSERT INTO Admin_CTestScheduleCustomTime (
 									AdminCTestSchId,
 									Time
 								)
 								VALUES ${ctime
                   .map(
-                    (x) => `(
-									${result3.recordset[x[1]]["AdminCTestSchId"]},
-									'${x[0]}'
+                    (_, idx) => `(
+									@sched_id${idx},
+									@time${idx}
 								)`
                   )
                   .join(", ")}
@@ -1241,29 +1393,42 @@ export class ActivityRepository {
         }
 
         // Modify jewels ctest questions.
-        const checkJewels = await transaction.request().query(`
+        const checkJewels = await transaction.request().input("ctest_id", sql.BigInt, ctest_id).query(`
             SELECT AdminID, CTestID 
             FROM Admin_CTestSettings
-            WHERE AdminCTestSettingID = ${ctest_id}
+            WHERE AdminCTestSettingID = @ctest_id
           ;`)
         const adminID = Number.parse(checkJewels.recordset[0]["AdminID"]) ?? 0
         const actualID = Number.parse(checkJewels.recordset[0]["CTestID"]) ?? 0
         if (typeof object.settings === "object" && (actualID === 17 || actualID === 18)) {
           const isA = actualID === 17
-          const result2 = await transaction.request().query(`
+          const req2 = transaction.request()
+          req2.input("adminID", sql.BigInt, adminID)
+          req2.input("beginner_seconds", sql.Int, object.settings.beginner_seconds || (isA ? 90 : 180))
+          req2.input("intermediate_seconds", sql.Int, object.settings.intermediate_seconds || (isA ? 30 : 90))
+          req2.input("advanced_seconds", sql.Int, object.settings.advanced_seconds || (isA ? 25 : 60))
+          req2.input("expert_seconds", sql.Int, object.settings.expert_seconds || (isA ? 15 : 45))
+          req2.input("diamond_count", sql.Int, object.settings.diamond_count || (isA ? 25 : 25))
+          req2.input("shape_count", sql.Int, object.settings.shape_count || (isA ? 1 : 2))
+          req2.input("bonus_point_count", sql.Int, object.settings.bonus_point_count || (isA ? 50 : 50))
+          req2.input("x_changes_in_level_count", sql.Int, object.settings.x_changes_in_level_count || (isA ? 1 : 1))
+          req2.input("x_diamond_count", sql.Int, object.settings.x_diamond_count || (isA ? 1 : 1))
+          req2.input("y_changes_in_level_count", sql.Int, object.settings.y_changes_in_level_count || (isA ? 1 : 1))
+          req2.input("y_shape_count", sql.Int, object.settings.y_shape_count || (isA ? 1 : 2))
+          const result2 = await req2.query(`
 						UPDATE Admin_JewelsTrails${isA ? "A" : "B"}Settings SET
-							NoOfSeconds_Beg = ${object.settings.beginner_seconds || (isA ? 90 : 180)},
-							NoOfSeconds_Int = ${object.settings.intermediate_seconds || (isA ? 30 : 90)},
-							NoOfSeconds_Adv = ${object.settings.advanced_seconds || (isA ? 25 : 60)},
-							NoOfSeconds_Exp = ${object.settings.expert_seconds || (isA ? 15 : 45)},
-							NoOfDiamonds = ${object.settings.diamond_count || (isA ? 25 : 25)},
-							NoOfShapes = ${object.settings.shape_count || (isA ? 1 : 2)},
-							NoOfBonusPoints = ${object.settings.bonus_point_count || (isA ? 50 : 50)},
-							X_NoOfChangesInLevel = ${object.settings.x_changes_in_level_count || (isA ? 1 : 1)},
-							X_NoOfDiamonds = ${object.settings.x_diamond_count || (isA ? 1 : 1)},
-							Y_NoOfChangesInLevel = ${object.settings.y_changes_in_level_count || (isA ? 1 : 1)},
-							Y_NoOfShapes = ${object.settings.y_shape_count || (isA ? 1 : 2)}
-						WHERE Admin_JewelsTrails${isA ? "A" : "B"}Settings.AdminID = ${adminID}
+							NoOfSeconds_Beg = @beginner_seconds,
+							NoOfSeconds_Int = @intermediate_seconds,
+							NoOfSeconds_Adv = @advanced_seconds,
+							NoOfSeconds_Exp = @expert_seconds,
+							NoOfDiamonds = @diamond_count,
+							NoOfShapes = @shape_count,
+							NoOfBonusPoints = @bonus_point_count,
+							X_NoOfChangesInLevel = @x_changes_in_level_count,
+							X_NoOfDiamonds = @x_diamond_count,
+							Y_NoOfChangesInLevel = @y_changes_in_level_count,
+							Y_NoOfShapes = @y_shape_count
+						WHERE Admin_JewelsTrails${isA ? "A" : "B"}Settings.AdminID = @adminID
 					;`)
           if (result2.rowsAffected[0] === 0) throw new Error("400.create-failed-due-to-malformed-parameters-settings")
         }
@@ -1293,61 +1458,62 @@ export class ActivityRepository {
     try {
       // Set the deletion flag, without actually deleting the row.
       if (group_id > 0 /* group */) {
-        const result = await transaction.request().query(`
+        const result = await transaction.request().input("group_id", sql.BigInt, group_id).query(`
 					UPDATE Admin_BatchSchedule 
 					SET IsDeleted = 1 
 					WHERE IsDeleted = 0
-						AND AdminBatchSchID = ${group_id}
+						AND AdminBatchSchID = @group_id
 				;`)
         if (result.rowsAffected[0] === 0) throw new Error("404.object-not-found")
       } else if (survey_id > 0 /* survey */) {
-        const result = await transaction.request().query(`
+        const result = await transaction.request().input("survey_id", sql.BigInt, survey_id).query(`
 					UPDATE Survey 
 					SET IsDeleted = 1 
 					WHERE IsDeleted = 0 
-						AND SurveyID = ${survey_id}
+						AND SurveyID = @survey_id
 				;`)
         if (result.rowsAffected[0] === 0) throw new Error("404.object-not-found")
 
-        const result2 = await transaction.request().query(`
+        const result2 = await transaction.request().input("survey_id", sql.BigInt, survey_id).query(`
 					UPDATE Admin_SurveySchedule 
 					SET IsDeleted = 1
 					WHERE IsDeleted = 0
-						AND SurveyID = ${survey_id}
+						AND SurveyID = @survey_id
 				;`)
 
-        const result3 = await transaction.request().query(`
+        const result3 = await transaction.request().input("survey_id", sql.BigInt, survey_id).query(`
 					UPDATE SurveyQuestions 
 					SET IsDeleted = 1
 					WHERE IsDeleted = 0
-						AND SurveyID = ${survey_id}
+						AND SurveyID = @survey_id
 				;`)
       } /* cognitive test */ else {
-        const result1 = await transaction.request().query(`
+        const result1 = await transaction.request().input("ctest_id", sql.BigInt, ctest_id).query(`
 					UPDATE Admin_CTestSettings 
 					SET Status = 0 
 					WHERE Status = 1
-						AND AdminCTestSettingID = ${ctest_id}
+						AND AdminCTestSettingID = @ctest_id
 				;`)
         if (result1.rowsAffected[0] === 0) throw new Error("404.object-not-found")
 
-        const result2 = await transaction.request().query(`
+        const result2 = await transaction.request().input("ctest_id", sql.BigInt, ctest_id).query(`
 					UPDATE Admin_CTestSchedule 
 					SET IsDeleted = 1
 					WHERE IsDeleted = 0
 						AND AdminID IN (
 							SELECT AdminID
 							FROM Admin_CTestSettings
-							WHERE AdminCTestSettingID = ${ctest_id}
+							WHERE AdminCTestSettingID = @ctest_id
 						)
 						AND CTestID IN (
 							SELECT CTestID
 							FROM Admin_CTestSettings
-							WHERE AdminCTestSettingID = ${ctest_id}
+							WHERE AdminCTestSettingID = @ctest_id
 						)
 				;`)
       }
 
+      await StudyRepository._unlink("Activity", activity_id, transaction)
       await transaction.commit()
       return {}
     } catch (e) {
@@ -1381,37 +1547,34 @@ const spec_map: { [string: string]: any } = {
   "lamp.spin_wheel": "Spin Wheel",
 }
 
-const _escapeMSSQL = (val: string) =>
-  val.replace(/[\0\n\r\b\t\\'"\x1a]/g, (s: string) => {
-    switch (s) {
-      case "\0":
-        return "\\0"
-      case "\n":
-        return "\\n"
-      case "\r":
-        return "\\r"
-      case "\b":
-        return "\\b"
-      case "\t":
-        return "\\t"
-      case "\x1a":
-        return "\\Z"
-      case "'":
-        return "''"
-      case '"':
-        return '""'
-      default:
-        return "\\" + s
-    }
-  })
+/**
+ * Pack the ID of the parent of the `Activity` owned by the researcher, resolving which of their studies it belongs to.
+ */
+const _parent_pack = async (id: string, type: Function, admin_id: number): Promise<string> => {
+  return type === ResearcherRepository
+    ? ResearcherRepository._pack_id({ admin_id })
+    : await StudyRepository._study_of(admin_id, "Activity", id)
+}
+
+/**
+ * Validate the settings against the `settings_schema` of the `ActivitySpec`, failing with the
+ * JSON pointer path of every invalid field. Specs without a `settings_schema` accept anything.
+ */
+const _validate_settings = async (spec: string | undefined, settings: any) => {
+  if (spec === undefined) return
+  const activity_spec = (await ActivitySpecRepository._select(spec))[0]
+  const errors = Validate(activity_spec?.settings_schema, settings, "/settings")
+  if (errors.length > 0) throw new Error(`400.invalid-settings: ${errors.join("; ")}`)
+}
 
 // threshold & operator hard-coded matches
 const _opMatch = (val: string) =>
   (<any>{
     "Today I have thoughts of self-harm": {
       tr: 1,
-      op: `'1'`,
-      msg: `'Please remember that this app is not monitored.  If you are having thoughts of suicide or self-harm, please call 1-800-273-8255.'`,
+      op: "1",
+      msg:
+        "Please remember that this app is not monitored.  If you are having thoughts of suicide or self-harm, please call 1-800-273-8255.",
     },
   })[val]
 
@@ -1,5 +1,7 @@
 import { Database } from "../app"
 import { ActivitySpec } from "../model/ActivitySpec"
+import { ActivityRepository } from "../repository/ActivityRepository"
+import { ValidateSchema } from "../utils/Validator"
 
 export class ActivitySpecRepository {
   /**
@@ -30,9 +32,23 @@ export class ActivitySpecRepository {
      */
     object: ActivitySpec
   ): Promise<string> {
-    // TODO: ActivitySpecs do not exist! They cannot be modified!
-    throw new Error("503.unimplemented")
-    return ""
+    if (typeof object.name !== "string" || object.name.length === 0) throw new Error("400.activity-spec-requires-name")
+    _validate_schemas(object)
+    try {
+      await Database.use("activity_spec").insert({
+        _id: object.name,
+        name: object.name,
+        help_contents: object.help_contents,
+        script_contents: object.script_contents,
+        static_data_schema: object.static_data_schema,
+        temporal_slice_schema: object.temporal_slice_schema,
+        settings_schema: object.settings_schema,
+      } as any)
+    } catch (e) {
+      if (e.statusCode === 409) throw new Error("409.activity-spec-already-exists")
+      throw e
+    }
+    return object.name
   }
 
   /**
@@ -40,7 +56,7 @@ export class ActivitySpecRepository {
    */
   public static async _update(
     /**
-     * The `ActivityIndexID` column of the `ActivityIndex` table in the LAMP_Aux DB.
+     * The name of the `ActivitySpec`.
      */
     activity_spec_name: string,
 
@@ -49,9 +65,22 @@ export class ActivitySpecRepository {
      */
     object: ActivitySpec
   ): Promise<string> {
-    // TODO: ActivitySpecs do not exist! They cannot be modified!
-    throw new Error("503.unimplemented")
-    return ""
+    if (object.name !== undefined && object.name !== activity_spec_name)
+      throw new Error("400.update-failed-renaming-activity-spec-is-illegal")
+    const orig: any = await _get(activity_spec_name)
+    const updated = {
+      ...orig,
+      // Only fields left out are kept; `null` clears a field.
+      help_contents: object.help_contents !== undefined ? object.help_contents : orig.help_contents,
+      script_contents: object.script_contents !== undefined ? object.script_contents : orig.script_contents,
+      static_data_schema: object.static_data_schema !== undefined ? object.static_data_schema : orig.static_data_schema,
+      temporal_slice_schema:
+        object.temporal_slice_schema !== undefined ? object.temporal_slice_schema : orig.temporal_slice_schema,
+      settings_schema: object.settings_schema !== undefined ? object.settings_schema : orig.settings_schema,
+    }
+    _validate_schemas(updated)
+    await _conflict(Database.use("activity_spec").insert(updated))
+    return activity_spec_name
   }
 
   /**
@@ -59,12 +88,50 @@ export class ActivitySpecRepository {
    */
   public static async _delete(
     /**
-     * The `ActivityIndexID` column of the `ActivityIndex` table in the LAMP_Aux DB.
+     * The name of the `ActivitySpec`.
      */
     activity_spec_name: string
   ): Promise<string> {
-    // TODO: ActivitySpecs do not exist! They cannot be modified!
-    throw new Error("503.unimplemented")
-    return ""
+    const orig: any = await _get(activity_spec_name)
+    if ((await ActivityRepository._select()).some((x) => x.spec === activity_spec_name))
+      throw new Error("400.activity-spec-in-use")
+    await _conflict(Database.use("activity_spec").destroy(orig._id, orig._rev))
+    return activity_spec_name
+  }
+}
+
+/**
+ * Get the stored document for an `ActivitySpec`, failing if it does not exist.
+ */
+const _get = async (activity_spec_name: string): Promise<any> => {
+  try {
+    return await Database.use("activity_spec").get(activity_spec_name)
+  } catch (e) {
+    if (e.statusCode === 404) throw new Error("404.object-not-found")
+    throw e
+  }
+}
+
+/**
+ * Check that each of the schema fields of the `ActivitySpec` is itself a valid JSON Schema.
+ */
+const _validate_schemas = (object: ActivitySpec): void => {
+  const errors = [
+    ...ValidateSchema(object.static_data_schema, "/static_data_schema"),
+    ...ValidateSchema(object.temporal_slice_schema, "/temporal_slice_schema"),
+    ...ValidateSchema(object.settings_schema, "/settings_schema"),
+  ]
+  if (errors.length > 0) throw new Error(`400.invalid-schema: ${errors.join("; ")}`)
+}
+
+/**
+ * Fail with `409` if the stored document was changed by someone else since it was read.
+ */
+const _conflict = async <T>(request: Promise<T>): Promise<T> => {
+  try {
+    return await request
+  } catch (e) {
+    if (e.statusCode === 409) throw new Error("409.update-conflict")
+    throw e
   }
 }
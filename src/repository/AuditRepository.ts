@@ -0,0 +1,113 @@
+import { Database } from "../app"
+import { AuditEvent } from "../model/AuditEvent"
+import { Researcher } from "../model/Researcher"
+import { TypeRepository, Identifier_unpack } from "../repository/TypeRepository"
+
+export class AuditRepository {
+  /**
+   * Get the `AuditEvent`s of accesses to a `Researcher` or anything it owns, newest first.
+   */
+  public static async _select(
+    /**
+     * The `Researcher` the accessed objects belong to.
+     */
+    researcher_id: string,
+
+    /**
+     * Only accesses on or after this timestamp.
+     */
+    from_date?: number,
+
+    /**
+     * Only accesses before this timestamp.
+     */
+    to_date?: number,
+
+    /**
+     * Only accesses by this identity.
+     */
+    by?: string,
+
+    limit?: number
+  ): Promise<AuditEvent[]> {
+    if (Identifier_unpack(researcher_id)[0] !== (<any>Researcher).name) throw new Error("400.invalid-identifier")
+    const data = await Database.use("audit").find({
+      selector: {
+        "#parent": researcher_id,
+        by: by as any,
+        on:
+          from_date === undefined && to_date === undefined
+            ? (undefined as any)
+            : { $gte: from_date ?? 0, $lt: to_date ?? Number.MAX_SAFE_INTEGER },
+      },
+      sort: [{ "#parent": "desc" }, ...(by !== undefined ? [{ by: "desc" }] : []), { on: "desc" }] as any,
+      limit: Math.min(Math.max(limit ?? 1000, 1), 1000),
+    })
+    return data.docs.map((x: any) => ({
+      in: x.in,
+      at: x.at,
+      on: x.on,
+      by: x.by,
+      cosign: x.cosign,
+      route: x.route,
+      method: x.method,
+      status: x.status,
+    }))
+  }
+
+  /**
+   * Append `AuditEvent`s to the log. Each is filed under the `Researcher` that owns the accessed object,
+   * as of the access, so that it can still be found after the object is deleted.
+   */
+  public static async _insert(events: AuditEvent[]): Promise<void> {
+    const data = await Database.use("audit").bulk({
+      docs: await Promise.all(events.map(async (x) => ({ ...x, "#parent": await _owner(x.in) }))),
+    })
+    const output = data.filter((x) => !!x.error)
+    if (output.length > 0) console.error(output)
+  }
+
+  /**
+   * Create the `audit` database if needed, along with a design document that rejects any change to an
+   * existing record, and the Mango indexes backing `_select`.
+   */
+  public static async _create_indexes(): Promise<void> {
+    try {
+      await Database.db.create("audit")
+    } catch (e) {
+      if (e.statusCode !== 412) throw e
+    }
+    try {
+      await Database.use("audit").insert({
+        _id: "_design/append-only",
+        validate_doc_update: `function (newDoc, oldDoc) {
+          if (oldDoc) throw { forbidden: "audit records are append-only" }
+        }`,
+      } as any)
+    } catch (e) {
+      if (e.statusCode !== 409) throw e
+    }
+    for (const fields of [
+      ["#parent", "on"],
+      ["#parent", "by", "on"],
+    ])
+      await Database.use("audit").createIndex({
+        index: { fields },
+        ddoc: `index-${fields.join("-").replace("#", "")}`,
+        name: `index-${fields.join("-").replace("#", "")}`,
+      })
+  }
+}
+
+/**
+ * The `Researcher` that owns an object, if any.
+ */
+const _owner = async (id: string): Promise<string | undefined> => {
+  if (!id) return undefined
+  try {
+    if (TypeRepository._self_type(id) === (<any>Researcher).name) return id
+    return await TypeRepository._parent_id(id, (<any>Researcher).name)
+  } catch (e) {
+    return undefined
+  }
+}
@@ -1,5 +1,6 @@
 import { Request, Response } from "express"
-import { SQL, Encrypt, Decrypt } from "../app"
+import { SQL, Database, Encrypt, Decrypt, Ciphertexts, Hash, Verify, Hashed } from "../app"
+import crypto from "crypto"
 import sql from "mssql"
 import { Participant } from "../model/Participant"
 import { Study } from "../model/Study"
@@ -7,109 +8,144 @@ import { Researcher } from "../model/Researcher"
 import { Credential } from "../model/Credential"
 import { ResearcherRepository } from "../repository/ResearcherRepository"
 import { ParticipantRepository } from "../repository/ParticipantRepository"
-import { Identifier_unpack, Identifier_pack } from "../repository/TypeRepository"
+import { Identifier_unpack, Identifier_pack, Parameter_list } from "../repository/TypeRepository"
 
 // TODO: Credential.delete -> promote tag credential to legacy credential to allow login!
 
-export class CredentialRepository {
-  // DANGER: This decrypts and dumps EVERY SINGLE CREDENTIAL!!! DO NOT USE EXCEPT FOR DEBUGGING!
-  public static async _showAll(): Promise<any[]> {
-    // Reset the legacy/default credential as a Researcher.
-    const result1 = await SQL!.request().query(`
-			SELECT AdminID, Email, Password
-			FROM Admin
-			WHERE IsDeleted = 0
-		;`)
-
-    const out1 = result1.recordset.map((x) => ({
-      origin: ResearcherRepository._pack_id({ admin_id: Number.parse(x["AdminID"]) ?? 0 }),
-      access_key: Decrypt(x["Email"]),
-      secret_key: Decrypt(x["Password"], "AES256"),
-      description: "Default Credential",
-    }))
-
-    // Reset the legacy/default credential as a Participant.
-    const result2 = await SQL!.request().query(`
-			SELECT StudyId, Email, Password
-			FROM Users
-			WHERE IsDeleted = 0
-		;`)
-
-    const out2 = result2.recordset.map((x) => ({
-      origin: Decrypt(x["StudyId"]),
-      access_key: Decrypt(x["Email"]),
-      secret_key: Decrypt(x["Password"], "AES256"),
-      description: "Default Credential",
-    }))
-
-    // Get any API credentials.
-    const result3 = await SQL!.request().query(`
-            SELECT ObjectID, Value
-            FROM LAMP_Aux.dbo.OOLAttachment
-            WHERE ObjectType = 'Credential'
-		;`)
-
-    const out3 = result3.recordset
-      .map((x) => JSON.parse(x["Value"]))
-      .map((x) => ({ ...x, secret_key: Decrypt(x.secret_key, "AES256") }))
-    return [...out1, ...out2, ...out3]
-  }
+// The number of seconds a rotated-out secret key remains valid for, unless the rotation asks otherwise.
+const CREDENTIAL_ROTATION_GRACE = Number.parse(process.env.CREDENTIAL_ROTATION_GRACE) ?? 24 * 60 * 60
 
+export class CredentialRepository {
   // if used with secret_key, will throw error if mismatch, else, will return confirmation of existence
   public static async _find(
     access_key: string,
 
     secret_key?: string
   ): Promise<string> {
+    return (await CredentialRepository._lookup(access_key, secret_key)).origin
+  }
+
+  /**
+   * Like `_find`, but also returns the scopes the credential is limited to, if it is limited at all, and its
+   * stored secret key. Only API credentials may be scoped or expire; the legacy/default credentials always
+   * grant full authority.
+   */
+  public static async _lookup(
+    access_key: string,
+
+    secret_key?: string
+  ): Promise<{ origin: string; scopes?: string[]; secret: string }> {
     let result = null
 
     // Get any API credentials.
     // Note: THIS MUST HAPPEN FIRST! If not, you will see email address conflicts with legacy accounts.
-    result = await SQL!.request().query(`
+    result = await SQL!.request().input("access_key", sql.NVarChar, access_key).query(`
             SELECT ObjectID, Value
             FROM LAMP_Aux.dbo.OOLAttachment
             WHERE (
-                	[Key] = '${access_key}'
+                	[Key] = @access_key
                 	AND ObjectType = 'Credential'
                 )
 		;`)
     if (result.rowsAffected[0] > 0) {
-      if (!!secret_key && secret_key !== Decrypt(JSON.parse(result.recordset[0]["Value"])["secret_key"], "AES256"))
-        throw new Error("403.no-such-credentials")
-      return result.recordset[0]["ObjectID"]
+      const value = JSON.parse(result.recordset[0]["Value"])
+      if (typeof value["expires_at"] === "number" && value["expires_at"] <= Date.now())
+        throw new Error("403.credential-expired")
+      if (!!secret_key) {
+        // A rotated-out secret key remains valid until its grace period ends. Whichever one matched is
+        // re-hashed if it was stored before secrets were hashed.
+        const changes: any = {}
+        if (await Verify(secret_key, value["secret_key"])) {
+          if (!Hashed(value["secret_key"])) changes.secret_key = await Hash(secret_key)
+        } else if (
+          value["previous_expires_at"] > Date.now() &&
+          (await Verify(secret_key, value["previous_secret_key"]))
+        ) {
+          if (!Hashed(value["previous_secret_key"])) changes.previous_secret_key = await Hash(secret_key)
+        } else throw new Error("403.no-such-credentials")
+        await _touch(access_key, result.recordset[0]["Value"], changes)
+      }
+      return { origin: result.recordset[0]["ObjectID"], scopes: value["scopes"], secret: value["secret_key"] }
     }
 
     // Reset the legacy/default credential as a Researcher.
-    result = await SQL!.request().query(`
+    const req1 = SQL!.request()
+    result = await req1.query(`
 			SELECT AdminID, Password
 			FROM Admin
 			WHERE IsDeleted = 0 
-				AND Email = '${Encrypt(access_key)}'
+				AND Email IN (${Parameter_list(req1, "email", Ciphertexts(access_key))})
 				AND (Password IS NOT NULL AND Password != '')
 		;`)
     if (result.rowsAffected[0] > 0) {
-      if (!!secret_key && secret_key !== Decrypt(result.recordset[0]["Password"], "AES256"))
-        throw new Error("403.no-such-credentials")
-      return ResearcherRepository._pack_id({ admin_id: Number.parse(result.recordset[0]["AdminID"]) ?? 0 })
+      if (!!secret_key) {
+        if (!(await Verify(secret_key, result.recordset[0]["Password"]))) throw new Error("403.no-such-credentials")
+        await Password_rehash("Admin", result.recordset[0]["Password"], secret_key)
+      }
+      return {
+        origin: ResearcherRepository._pack_id({ admin_id: Number.parse(result.recordset[0]["AdminID"]) ?? 0 }),
+        secret: result.recordset[0]["Password"],
+      }
     }
 
     // Reset the legacy/default credential as a Participant.
-    result = await SQL!.request().query(`
+    const req2 = SQL!.request()
+    result = await req2.query(`
 			SELECT Email, StudyId, Password
 			FROM Users
 			WHERE IsDeleted = 0 
-				AND Email = '${Encrypt(access_key)}'
+				AND Email IN (${Parameter_list(req2, "email", Ciphertexts(access_key))})
 				AND (Password IS NOT NULL AND Password != '')
 		;`)
     if (result.rowsAffected[0] > 0) {
-      if (!!secret_key && secret_key !== Decrypt(result.recordset[0]["Password"], "AES256"))
-        throw new Error("403.no-such-credentials")
-      return <string>Decrypt(result.recordset[0]["StudyId"])
+      if (!!secret_key) {
+        if (!(await Verify(secret_key, result.recordset[0]["Password"]))) throw new Error("403.no-such-credentials")
+        await Password_rehash("Users", result.recordset[0]["Password"], secret_key)
+      }
+      return { origin: <string>Decrypt(result.recordset[0]["StudyId"]), secret: result.recordset[0]["Password"] }
     }
 
     throw new Error("403.no-such-credentials")
   }
 
+  /**
+   * Get the stored secret key of whatever an identity signed in with, along with the scopes it is limited to,
+   * or `undefined` if the identity or its Credential no longer exists. The access key signed in with is `root`,
+   * the identity's own ID, or that of one of its Credentials.
+   */
+  public static async _identity(
+    sub: string,
+    access_key: string
+  ): Promise<{ secret: string; scopes?: string[] } | undefined> {
+    if (access_key === "root") {
+      if (sub !== "root") return undefined
+      try {
+        return { secret: ((await Database.use("root").get("#master_config")) as any).data.password }
+      } catch (e) {
+        return { secret: "" } // a temporary root password, which lasts as long as this process
+      }
+    } else if (access_key === sub) {
+      const req = SQL!.request()
+      const result =
+        Identifier_unpack(sub).length === 0 /* Participant */
+          ? await req.query(`
+              SELECT Password FROM Users
+              WHERE IsDeleted = 0 AND StudyId IN (${Parameter_list(req, "study_id", Ciphertexts(sub))})
+            ;`)
+          : await req.input("admin_id", sql.BigInt, ResearcherRepository._unpack_id(sub).admin_id).query(`
+              SELECT Password FROM Admin WHERE IsDeleted = 0 AND AdminID = @admin_id
+            ;`)
+      return result.recordset.length === 0 ? undefined : { secret: result.recordset[0]["Password"] }
+    }
+    try {
+      const { origin, scopes, secret } = await CredentialRepository._lookup(access_key)
+      return origin === sub ? { secret, scopes } : undefined
+    } catch (e) {
+      if (e.message === "403.no-such-credentials") return undefined
+      throw e
+    }
+  }
+
   public static async _select(type_id: string): Promise<string[]> {
     // Get the correctly scoped identifier to search within.
     let user_id: string | undefined
@@ -124,12 +160,12 @@ export class CredentialRepository {
     let legacy_key: Credential | undefined = undefined
     if (!!admin_id) {
       // Reset the legacy/default credential as a Researcher.
-      const result = await SQL!.request().query(`
+      const result = await SQL!.request().input("admin_id", sql.BigInt, admin_id).query(`
 				SELECT Email
 				FROM Admin
 				WHERE IsDeleted = 0 
 					AND (Password IS NOT NULL AND Password != '')
-					AND AdminID = ${admin_id}
+					AND AdminID = @admin_id
 			;`)
       if (result.rowsAffected[0] > 0)
         legacy_key = {
@@ -140,12 +176,13 @@ export class CredentialRepository {
         }
     } else if (!!user_id) {
       // Reset the legacy/default credential as a Participant.
-      const result = await SQL!.request().query(`
+      const req = SQL!.request()
+      const result = await req.query(`
 				SELECT Email
 				FROM Users
 				WHERE IsDeleted = 0 
 					AND (Password IS NOT NULL AND Password != '')
-					AND StudyId = '${Encrypt(user_id)}'
+					AND StudyId IN (${Parameter_list(req, "study_id", Ciphertexts(user_id))})
 			;`)
       if (result.rowsAffected[0] > 0)
         legacy_key = {
@@ -158,20 +195,23 @@ export class CredentialRepository {
 
     // Get any API credentials.
     const result = (
-      await SQL!.request().query(`
+      await SQL!.request().input("type_id", sql.NVarChar, type_id).query(`
             SELECT [Key], Value
             FROM LAMP_Aux.dbo.OOLAttachment
             WHERE (
-                	ObjectID = '${type_id}'
+                	ObjectID = @type_id
                 	AND ObjectType = 'Credential'
                 )
 		;`)
     ).recordset
 
     //
-    return [legacy_key, ...result.map((x) => JSON.parse(x["Value"])).map((x) => ({ ...x, secret_key: null }))].filter(
-      (x) => !!x
-    )
+    return [
+      legacy_key,
+      ...result
+        .map((x) => JSON.parse(x["Value"]))
+        .map((x) => ({ ...x, secret_key: null, previous_secret_key: undefined })),
+    ].filter((x) => !!x)
   }
 
   public static async _insert(
@@ -196,13 +236,15 @@ export class CredentialRepository {
         secret_key: credential,
       }
       if (!!admin_id) {
-        const result = await SQL!.request().query(`
-					SELECT Email FROM Admin WHERE IsDeleted = 0 AND AdminID = ${admin_id}
+        const result = await SQL!.request().input("admin_id", sql.BigInt, admin_id).query(`
+					SELECT Email FROM Admin WHERE IsDeleted = 0 AND AdminID = @admin_id
 				;`)
         credential.access_key = Decrypt(result.recordset[0]["Email"])
       } else if (!!user_id) {
-        const result = await SQL!.request().query(`
-					SELECT Email FROM Users WHERE IsDeleted = 0 AND StudyId = '${Encrypt(user_id)}'
+        const req = SQL!.request()
+        const result = await req.query(`
+					SELECT Email FROM Users
+					WHERE IsDeleted = 0 AND StudyId IN (${Parameter_list(req, "study_id", Ciphertexts(user_id))})
 				;`)
         credential.access_key = Decrypt(result.recordset[0]["Email"])
       }
@@ -216,49 +258,73 @@ export class CredentialRepository {
     // If it's not our credential, don't mess with it!
     if (credential.origin !== type_id || !credential.access_key || !credential.secret_key)
       throw new Error("400.malformed-credential-object")
+    _validate_scopes(credential.scopes)
+    _validate_expiry(credential.expires_at)
 
     let x
     try {
       x = await CredentialRepository._find(credential.access_key)
-    } catch (e) {}
+    } catch (e) {
+      // An expired access key is still in use until its credential is deleted.
+      if (e.message === "403.credential-expired") x = credential.access_key
+    }
     if (!!x) throw new Error("403.access-key-already-in-use")
 
-    if (!!admin_id) {
+    // Scoped or expiring credentials can only be API credentials, since the legacy/default ones have nowhere
+    // to keep either.
+    const api_only = credential.scopes !== undefined || typeof credential.expires_at === "number"
+    if (!!admin_id && !api_only) {
       // Reset the legacy/default credential as a Researcher.
-      const result = await SQL!.request().query(`
+      const req = SQL!.request()
+      req.input("email", sql.NVarChar, Encrypt(credential.access_key))
+      req.input("password", sql.NVarChar, await Hash(credential.secret_key))
+      req.input("admin_id", sql.BigInt, admin_id)
+      const result = await req.query(`
 				UPDATE Admin 
 				SET 
-					Email = '${Encrypt(credential.access_key)}',
-					Password = '${Encrypt(credential.secret_key, "AES256")}'
+					Email = @email,
+					Password = @password
 				WHERE IsDeleted = 0 
 					AND (Password IS NULL OR Password = '')
-					AND AdminID = ${admin_id}
+					AND AdminID = @admin_id
 			;`)
       if (result.rowsAffected[0] > 0) return {}
-    } else if (!!user_id) {
+    } else if (!!user_id && !api_only) {
       // Reset the legacy/default credential as a Participant.
-      const result = await SQL!.request().query(`
+      const req = SQL!.request()
+      req.input("email", sql.NVarChar, Encrypt(credential.access_key))
+      req.input("password", sql.NVarChar, await Hash(credential.secret_key))
+      const result = await req.query(`
 				UPDATE Users 
 				SET 
-					Email = '${Encrypt(credential.access_key)}',
-					Password = '${Encrypt(credential.secret_key, "AES256")}'
+					Email = @email,
+					Password = @password
 				WHERE IsDeleted = 0 
 					AND (Password IS NULL OR Password = '')
-					AND StudyId = '${Encrypt(user_id)}'
+					AND StudyId IN (${Parameter_list(req, "study_id", Ciphertexts(user_id))})
 			;`)
       if (result.rowsAffected[0] > 0) return {}
     }
 
     // Reset an API credential as either a Researcher or Participant.
-    credential.secret_key = Encrypt(credential.secret_key, "AES256")
+    credential = {
+      ...credential,
+      secret_key: await Hash(credential.secret_key),
+      created_at: Date.now(),
+      last_used_at: undefined,
+      previous_secret_key: undefined,
+      previous_expires_at: undefined,
+    }
     const req = SQL!.request()
-    req.input("json_value", JSON.stringify(credential))
+    req.input("json_value", sql.NVarChar, JSON.stringify(credential))
+    req.input("type_id", sql.NVarChar, type_id)
+    req.input("access_key", sql.NVarChar, credential.access_key)
     const result = await req.query(`
             INSERT INTO LAMP_Aux.dbo.OOLAttachment (
                 ObjectType, ObjectID, [Key], Value
             )
             VALUES (
-                'Credential', '${type_id}', '${credential.access_key}', @json_value
+                'Credential', @type_id, @access_key, @json_value
             )
 		;`)
     if (result.rowsAffected[0] === 0) throw new Error("404.object-not-found")
@@ -286,48 +352,102 @@ export class CredentialRepository {
     //	throw new BadRequest("The credential origin does not match the requested resource.")
     if (!credential.access_key || !credential.secret_key)
       throw new Error("400.credential-requires-access-and-secret-keys")
+    _validate_scopes(credential.scopes)
+    _validate_expiry(credential.expires_at)
 
-    if (!!admin_id) {
+    const api_only = credential.scopes !== undefined || typeof credential.expires_at === "number"
+    if (!!admin_id && !api_only) {
       // Reset the legacy/default credential as a Researcher.
-      const result = await SQL!.request().query(`
+      const req = SQL!.request()
+      req.input("password", sql.NVarChar, await Hash(credential.secret_key))
+      req.input("admin_id", sql.BigInt, admin_id)
+      const result = await req.query(`
 				UPDATE Admin 
 				SET 
-					Password = '${Encrypt(credential.secret_key, "AES256")}'
+					Password = @password
 				WHERE IsDeleted = 0 
 					AND (Password IS NOT NULL AND Password != '')
-					AND Email = '${Encrypt(credential.access_key)}'
-					AND AdminID = ${admin_id}
+					AND Email IN (${Parameter_list(req, "email", Ciphertexts(credential.access_key))})
+					AND AdminID = @admin_id
 			;`)
       if (result.rowsAffected[0] > 0) return {}
-    } else if (!!user_id) {
+    } else if (!!user_id && !api_only) {
       // Reset the legacy/default credential as a Participant.
-      const result = await SQL!.request().query(`
+      const req = SQL!.request()
+      req.input("password", sql.NVarChar, await Hash(credential.secret_key))
+      const result = await req.query(`
 				UPDATE Users 
 				SET 
-					Password = '${Encrypt(credential.secret_key, "AES256")}'
+					Password = @password
 				WHERE IsDeleted = 0 
 					AND (Password IS NOT NULL AND Password != '')
-					AND Email = '${Encrypt(credential.access_key)}'
-					AND StudyId = '${Encrypt(user_id)}'
+					AND Email IN (${Parameter_list(req, "email", Ciphertexts(credential.access_key))})
+					AND StudyId IN (${Parameter_list(req, "study_id", Ciphertexts(user_id))})
 			;`)
       if (result.rowsAffected[0] > 0) return {}
     }
 
-    // Reset an API credential as either a Researcher or Participant.
-    credential.secret_key = Encrypt(credential.secret_key, "AES256")
+    // Reset an API credential as either a Researcher or Participant, keeping the fields only we maintain.
+    const orig = await _get(type_id, credential.access_key)
+    credential = {
+      ...credential,
+      secret_key: await Hash(credential.secret_key),
+      created_at: orig.created_at,
+      last_used_at: orig.last_used_at,
+      previous_secret_key: orig.previous_secret_key,
+      previous_expires_at: orig.previous_expires_at,
+    }
     const req = SQL!.request()
-    req.input("json_value", JSON.stringify(credential))
+    req.input("json_value", sql.NVarChar, JSON.stringify(credential))
+    req.input("type_id", sql.NVarChar, type_id)
+    req.input("access_key", sql.NVarChar, credential.access_key)
     const result = await req.query(`
             UPDATE LAMP_Aux.dbo.OOLAttachment SET
 	            Value = @json_value
             WHERE ObjectType = 'Credential'
-            	AND ObjectID = '${type_id}'
-            	AND [Key] = '${credential.access_key}'
+            	AND ObjectID = @type_id
+            	AND [Key] = @access_key
 		;`)
     if (result.rowsAffected[0] === 0) throw new Error("404.object-not-found")
     return {}
   }
 
+  /**
+   * Replace the secret key of an API credential with a newly generated one, returning the credential with
+   * its new secret key. The old secret key remains valid for `grace_period` seconds, so that clients can
+   * switch over. Only API credentials can be rotated, since the legacy/default ones have nowhere to keep it.
+   */
+  public static async _rotate(
+    type_id: string,
+
+    access_key: string,
+
+    grace_period: number = CREDENTIAL_ROTATION_GRACE
+  ): Promise<any> {
+    if (typeof grace_period !== "number" || !(grace_period >= 0)) throw new Error("400.invalid-grace-period")
+    const orig = await _get(type_id, access_key)
+    const secret_key = crypto.randomBytes(32).toString("hex")
+    const credential = {
+      ...orig,
+      secret_key: await Hash(secret_key),
+      previous_secret_key: orig.secret_key,
+      previous_expires_at: Date.now() + grace_period * 1000,
+    }
+    const req = SQL!.request()
+    req.input("json_value", sql.NVarChar, JSON.stringify(credential))
+    req.input("type_id", sql.NVarChar, type_id)
+    req.input("access_key", sql.NVarChar, access_key)
+    const result = await req.query(`
+            UPDATE LAMP_Aux.dbo.OOLAttachment SET
+	            Value = @json_value
+            WHERE ObjectType = 'Credential'
+            	AND ObjectID = @type_id
+            	AND [Key] = @access_key
+		;`)
+    if (result.rowsAffected[0] === 0) throw new Error("404.access-key-not-found")
+    return { ...credential, secret_key, previous_secret_key: undefined }
+  }
+
   public static async _delete(
     type_id: string,
 
@@ -344,37 +464,131 @@ export class CredentialRepository {
 
     if (!!admin_id) {
       // Reset the legacy/default credential as a Researcher.
-      const result = await SQL!.request().query(`
+      const req = SQL!.request()
+      req.input("admin_id", sql.BigInt, admin_id)
+      const result = await req.query(`
 				UPDATE Admin 
 				SET Password = '' 
 				WHERE IsDeleted = 0 
-					AND Email = '${Encrypt(access_key)}'
-					AND AdminID = ${admin_id}
+					AND Email IN (${Parameter_list(req, "email", Ciphertexts(access_key))})
+					AND AdminID = @admin_id
 					AND (Password IS NOT NULL AND Password != '')
 			;`)
       if (result.rowsAffected[0] > 0) return {}
     } else if (!!user_id) {
       // Reset the legacy/default credential as a Participant.
-      const result = await SQL!.request().query(`
+      const req = SQL!.request()
+      const result = await req.query(`
 				UPDATE Users 
 				SET Password = '' 
 				WHERE IsDeleted = 0 
-					AND Email = '${Encrypt(access_key)}'
-					AND StudyId = '${Encrypt(user_id)}'
+					AND Email IN (${Parameter_list(req, "email", Ciphertexts(access_key))})
+					AND StudyId IN (${Parameter_list(req, "study_id", Ciphertexts(user_id))})
 					AND (Password IS NOT NULL AND Password != '')
 			;`)
       if (result.rowsAffected[0] > 0) return {}
     }
 
     // Reset an API credential as either a Researcher or Participant.
-    const result = await SQL!.request().query(`
+    const req = SQL!.request()
+    req.input("type_id", sql.NVarChar, type_id)
+    req.input("access_key", sql.NVarChar, access_key)
+    const result = await req.query(`
 	        DELETE FROM LAMP_Aux.dbo.OOLAttachment
             WHERE 
-                ObjectID = '${type_id}'
-                AND [Key] = '${access_key}'
+                ObjectID = @type_id
+                AND [Key] = @access_key
                 AND ObjectType = 'Credential'
 		;`)
     if (result.rowsAffected[0] === 0) throw new Error("404.access-key-not-found")
     return {}
   }
 }
+
+/**
+ * Check that the scopes, if any, are a list of `<resource>:<read|write|admin>` entries for known resources.
+ */
+const _validate_scopes = (scopes: any) => {
+  if (scopes === undefined) return
+  const resources = [
+    "activity",
+    "activity_event",
+    "activity_spec",
+    "credential",
+    "participant",
+    "researcher",
+    "sensor",
+    "sensor_event",
+    "sensor_spec",
+    "study",
+    "type",
+  ]
+  const valid = (x: any) =>
+    typeof x === "string" && /^[a-z_]+:(read|write|admin)$/.test(x) && resources.includes(x.split(":")[0])
+  if (!Array.isArray(scopes) || !scopes.every(valid)) throw new Error("400.invalid-credential-scopes")
+}
+
+/**
+ * Check that the expiry, if any, is a timestamp.
+ */
+const _validate_expiry = (expires_at: any) => {
+  if (expires_at === undefined || expires_at === null) return
+  if (typeof expires_at !== "number" || !Number.isFinite(expires_at)) throw new Error("400.invalid-credential-expiry")
+}
+
+/**
+ * Get the stored value of an API credential, failing if it does not exist.
+ */
+const _get = async (type_id: string, access_key: string): Promise<any> => {
+  const req = SQL!.request()
+  req.input("type_id", sql.NVarChar, type_id)
+  req.input("access_key", sql.NVarChar, access_key)
+  const result = await req.query(`
+            SELECT Value
+            FROM LAMP_Aux.dbo.OOLAttachment
+            WHERE ObjectType = 'Credential'
+            	AND ObjectID = @type_id
+            	AND [Key] = @access_key
+		;`)
+  if (result.rowsAffected[0] === 0) throw new Error("404.access-key-not-found")
+  return JSON.parse(result.recordset[0]["Value"])
+}
+
+/**
+ * Record that an API credential was just used, along with any other changes to it. Since every request looks
+ * its credential up again, this is written at most once a minute, and only if the credential hasn't changed
+ * in the meantime.
+ */
+const _touch = async (access_key: string, json_value: string, changes: any = {}) => {
+  const value = JSON.parse(json_value)
+  const recent = typeof value["last_used_at"] === "number" && Date.now() - value["last_used_at"] < 60 * 1000
+  if (recent && Object.keys(changes).length === 0) return
+  const req = SQL!.request()
+  req.input("json_value", sql.NVarChar, JSON.stringify({ ...value, ...changes, last_used_at: Date.now() }))
+  req.input("orig_value", sql.NVarChar, json_value)
+  req.input("access_key", sql.NVarChar, access_key)
+  await req.query(`
+            UPDATE LAMP_Aux.dbo.OOLAttachment SET
+	            Value = @json_value
+            WHERE ObjectType = 'Credential'
+            	AND [Key] = @access_key
+            	AND Value = @orig_value
+		;`)
+}
+
+/**
+ * Replace a legacy/default password stored before passwords were hashed with a hash of the password that was
+ * just found to match it. Only done if the stored password hasn't changed in the meantime.
+ */
+export async function Password_rehash(table: "Admin" | "Users", orig: string, secret_key: string): Promise<void> {
+  if (Hashed(orig)) return
+  const req = SQL!.request()
+  req.input("password", sql.NVarChar, await Hash(secret_key))
+  req.input("orig", sql.NVarChar, orig)
+  await req.query(`
+			UPDATE ${table}
+			SET Password = @password
+			WHERE IsDeleted = 0
+				AND Password = @orig
+		;`)
+}
@@ -0,0 +1,179 @@
+import { SQL } from "../app"
+import sql from "mssql"
+import { Lockout } from "../model/Lockout"
+
+// The number of failed attempts after which an access key or IP address is locked out, and for how many
+// seconds. Failures are forgotten once none have occurred for as long as a lockout lasts.
+const LOCKOUT_THRESHOLD = Number.parse(process.env.LOCKOUT_THRESHOLD) ?? 10
+const LOCKOUT_IP_THRESHOLD = Number.parse(process.env.LOCKOUT_IP_THRESHOLD) ?? 50
+const LOCKOUT_DURATION = Number.parse(process.env.LOCKOUT_DURATION) ?? 15 * 60
+
+/**
+ * Where failed attempts are counted. Each process keeps its own counts unless a shared store is plugged in.
+ */
+export interface LockoutStore {
+  /**
+   * Get the failure counts for the keys, or for every key if none are given.
+   */
+  select(keys?: string[]): Promise<{ key: string; failures: number; last_failure: number }[]>
+
+  /**
+   * Count a failure for the key at `now`, starting over if the last one was before `since`.
+   */
+  fail(key: string, now: number, since: number): Promise<void>
+
+  /**
+   * Forget the failures for the key, or for every key if none is given.
+   */
+  delete(key?: string): Promise<number>
+}
+
+/**
+ * Counts failures in the memory of this process.
+ */
+export class MemoryLockoutStore implements LockoutStore {
+  private _store = new Map<string, { failures: number; last_failure: number }>()
+
+  public async select(keys?: string[]): Promise<{ key: string; failures: number; last_failure: number }[]> {
+    return (keys ?? Array.from(this._store.keys()))
+      .filter((key) => this._store.has(key))
+      .map((key) => ({ key, ...this._store.get(key)! }))
+  }
+
+  public async fail(key: string, now: number, since: number): Promise<void> {
+    // Prune anything that would be started over anyway, so the store can't grow without bound.
+    this._store.forEach((x, key) => x.last_failure < since && this._store.delete(key))
+    this._store.set(key, { failures: (this._store.get(key)?.failures ?? 0) + 1, last_failure: now })
+  }
+
+  public async delete(key?: string): Promise<number> {
+    if (key !== undefined) return this._store.delete(key) ? 1 : 0
+    const count = this._store.size
+    this._store.clear()
+    return count
+  }
+}
+
+/**
+ * Counts failures in the `LoginFailure` table, shared by every process using the same database.
+ */
+export class SQLLockoutStore implements LockoutStore {
+  public async select(keys?: string[]): Promise<{ key: string; failures: number; last_failure: number }[]> {
+    const req = SQL!.request()
+    keys?.forEach((x, idx) => req.input(`key${idx}`, sql.NVarChar, x))
+    const result = await req.query(`
+			SELECT [Key] AS [key], Failures AS failures, LastFailure AS last_failure
+			FROM LAMP_Aux.dbo.LoginFailure
+			${keys !== undefined ? `WHERE [Key] IN (${keys.map((_, idx) => `@key${idx}`).join(", ") || "NULL"})` : ""}
+		;`)
+    return result.recordset.map((x) => ({ ...x, last_failure: new Date(x.last_failure).getTime() }))
+  }
+
+  public async fail(key: string, now: number, since: number): Promise<void> {
+    const req = SQL!.request()
+    req.input("key", sql.NVarChar, key)
+    req.input("now", sql.DateTime, new Date(now))
+    req.input("since", sql.DateTime, new Date(since))
+    await req.query(`
+			DELETE FROM LAMP_Aux.dbo.LoginFailure
+			WHERE LastFailure < @since AND [Key] != @key
+			;
+			MERGE INTO LAMP_Aux.dbo.LoginFailure WITH (HOLDLOCK) AS Target
+			USING (SELECT @key AS [Key]) AS Source
+				ON Target.[Key] = Source.[Key]
+			WHEN MATCHED THEN
+				UPDATE SET
+					Failures = (CASE WHEN Target.LastFailure < @since THEN 1 ELSE Target.Failures + 1 END),
+					LastFailure = @now
+			WHEN NOT MATCHED THEN
+				INSERT ([Key], Failures, LastFailure)
+				VALUES (@key, 1, @now)
+		;`)
+  }
+
+  public async delete(key?: string): Promise<number> {
+    const req = SQL!.request()
+    req.input("key", sql.NVarChar, key ?? null)
+    const result = await req.query(`
+			DELETE FROM LAMP_Aux.dbo.LoginFailure
+			WHERE @key IS NULL OR [Key] = @key
+		;`)
+    return result.rowsAffected[0]
+  }
+}
+
+export class LockoutRepository {
+  /**
+   * The store failures are counted in, which may be replaced to share the counts between processes.
+   */
+  public static store: LockoutStore =
+    process.env.LOCKOUT_STORE === "sql" ? new SQLLockoutStore() : new MemoryLockoutStore()
+
+  /**
+   * Get the failure counts that haven't been forgotten yet, along with when each one's lockout or backoff ends.
+   */
+  public static async _select(keys?: string[]): Promise<Lockout[]> {
+    const now = Date.now()
+    return (await LockoutRepository.store.select(keys))
+      .filter((x) => x.last_failure >= now - LOCKOUT_DURATION * 1000)
+      .map((x) => ({ ...x, locked_until: x.last_failure + _delay(x.key, x.failures) * 1000 }))
+  }
+
+  /**
+   * Fail with `429` if the access key or IP address must wait before another attempt. The error carries
+   * the number of seconds to wait as `retry_after`. Otherwise, returns whether any failures are counted
+   * against the access key.
+   */
+  public static async _check(access_key: string, ip?: string): Promise<boolean> {
+    const now = Date.now()
+    const lockouts = await LockoutRepository._select(_keys(access_key, ip))
+    const locked_until = Math.max(now, ...lockouts.map((x) => x.locked_until))
+    if (locked_until > now)
+      throw Object.assign(new Error("429.too-many-failed-attempts"), {
+        retry_after: Math.ceil((locked_until - now) / 1000),
+      })
+    return lockouts.some((x) => x.key === `access_key:${access_key}`)
+  }
+
+  /**
+   * Count a failed attempt against both the access key and the IP address.
+   */
+  public static async _failure(access_key: string, ip?: string): Promise<void> {
+    const now = Date.now()
+    for (const key of _keys(access_key, ip)) await LockoutRepository.store.fail(key, now, now - LOCKOUT_DURATION * 1000)
+  }
+
+  /**
+   * Forget the failures against the access key after a successful attempt. Failures against the IP address
+   * are kept, so that a valid login can't be interleaved to keep guessing at other access keys.
+   */
+  public static async _success(access_key: string): Promise<void> {
+    await LockoutRepository.store.delete(`access_key:${access_key}`)
+  }
+
+  /**
+   * Clear the failures against a key, or against every key if none is given.
+   */
+  public static async _delete(key?: string): Promise<number> {
+    return await LockoutRepository.store.delete(key)
+  }
+}
+
+/**
+ * The keys failures are counted against for an attempt.
+ */
+const _keys = (access_key: string, ip?: string): string[] => [
+  `access_key:${access_key}`,
+  ...(ip !== undefined ? [`ip:${ip}`] : []),
+]
+
+/**
+ * The number of seconds to wait after the last of a number of failures. The wait starts halfway to the
+ * lockout threshold at one second and doubles with each further failure, until the threshold locks it out.
+ */
+const _delay = (key: string, failures: number): number => {
+  const threshold = key.startsWith("ip:") ? LOCKOUT_IP_THRESHOLD : LOCKOUT_THRESHOLD
+  if (failures >= threshold) return LOCKOUT_DURATION
+  const free = Math.floor(threshold / 2)
+  return failures <= free ? 0 : Math.min(2 ** (failures - free - 1), LOCKOUT_DURATION)
+}
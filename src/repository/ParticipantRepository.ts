@@ -1,11 +1,11 @@
-import { SQL, Encrypt, Decrypt } from "../app"
-import { IResult } from "mssql"
+import { SQL, Encrypt, Decrypt, Ciphertexts } from "../app"
+import sql, { IResult } from "mssql"
 import { Study } from "../model/Study"
 import { Researcher } from "../model/Researcher"
 import { Participant } from "../model/Participant"
 import { ResearcherRepository } from "../repository/ResearcherRepository"
 import { StudyRepository } from "../repository/StudyRepository"
-import { Identifier_unpack, Identifier_pack } from "../repository/TypeRepository"
+import { Identifier_unpack, Identifier_pack, Parameter_list } from "../repository/TypeRepository"
 
 export class ParticipantRepository {
   /**
@@ -42,18 +42,18 @@ export class ParticipantRepository {
     switch (type) {
       case StudyRepository:
       case ResearcherRepository:
+        const req = SQL!.request()
         const result = (
-          await SQL!.request().query(`
+          await req.query(`
                     SELECT AdminID AS value
                     FROM Users
-                    WHERE IsDeleted = 0 AND StudyId = '${Encrypt(study_id)}';
+                    WHERE IsDeleted = 0 AND StudyId IN (${Parameter_list(req, "study_id", Ciphertexts(study_id))});
 				`)
         ).recordset
-        return result.length === 0
-          ? undefined
-          : (type === ResearcherRepository ? ResearcherRepository : StudyRepository)._pack_id({
-              admin_id: result[0].value,
-            })
+        if (result.length === 0) return undefined
+        return type === ResearcherRepository
+          ? ResearcherRepository._pack_id({ admin_id: result[0].value })
+          : await StudyRepository._study_of(result[0].value, "Participant", study_id)
 
       default:
         throw new Error("400.invalid-identifier")
@@ -81,7 +81,9 @@ export class ParticipantRepository {
 
     // Construct N sub-objects for each of N activities.
     // Perform complex lookup, returning a JSON object set.
-    const result = await SQL!.request().query(`
+    const req = SQL!.request()
+    req.input("admin_id", sql.BigInt, admin_id)
+    const result = await req.query(`
             SELECT 
                 StudyId AS id, 
                 StudyCode AS study_code, 
@@ -102,23 +104,31 @@ export class ParticipantRepository {
                 ON UserDevices.UserID = Users.UserID
             WHERE 
             	Users.IsDeleted = 0 
-            	${!!user_id ? `AND Users.StudyId = '${Encrypt(user_id)}'` : ""} 
-            	${!!admin_id ? `AND Users.AdminID = '${admin_id}'` : ""}
+            	${!!user_id ? `AND Users.StudyId IN (${Parameter_list(req, "study_id", Ciphertexts(user_id))})` : ""} 
+            	${!!admin_id ? `AND Users.AdminID = @admin_id` : ""}
             FOR JSON PATH, INCLUDE_NULL_VALUES;
 	    `)
 
     if (result.recordset.length === 0 || !result.recordset[0]) return []
 
+    // Only keep the Participants belonging to the specific Study, if requested.
+    const _scope =
+      !!id && Identifier_unpack(id)[0] === (<any>Study).name
+        ? await StudyRepository._scope(id, "Participant")
+        : () => true
+
     // Map from SQL DB to the local Participant type.
-    return result.recordset[0].map((raw: any) => {
-      const obj = new Participant()
-      obj.id = Decrypt(raw.id)
-      //obj.language = raw.language || "en"
-      //obj.theme = !!raw.theme ? Decrypt(raw.theme!) : undefined
-      //obj.emergency_contact = raw.emergency_contact
-      //obj.helpline = raw.helpline
-      return obj
-    })
+    return result.recordset[0]
+      .filter((raw: any) => _scope(Decrypt(raw.id) ?? ""))
+      .map((raw: any) => {
+        const obj = new Participant()
+        obj.id = Decrypt(raw.id)
+        //obj.language = raw.language || "en"
+        //obj.theme = !!raw.theme ? Decrypt(raw.theme!) : undefined
+        //obj.emergency_contact = raw.emergency_contact
+        //obj.helpline = raw.helpline
+        return obj
+      })
   }
 
   /**
@@ -136,19 +146,26 @@ export class ParticipantRepository {
     object: Participant
   ): Promise<any> {
     const admin_id = StudyRepository._unpack_id(study_id).admin_id
+    _validate(object)
+    await StudyRepository._require(study_id)
 
     // Create a fake email and study ID to allow login on the client app.
     const _id = `U${Math.random().toFixed(10).slice(2, 12)}`
 
     // Prepare the likely required SQL column changes as above.
-    const study_code = !!object.study_code ? `'${Encrypt(object.study_code)}'` : `'${Encrypt("001")}'`
-    const theme = !!object.theme ? `'${Encrypt(object.theme!)}'` : `'dJjw5FK/FXK6qU32frXHvg=='`
-    const language = !!object.language ? `'${Encrypt(object.language!)}'` : `'en'`
-    const emergency_contact = !!object.emergency_contact ? `'${Encrypt(object.emergency_contact!)}'` : `''`
-    const helpline = !!object.helpline ? `'${Encrypt(object.helpline!)}'` : `''`
+    const study_code = !!object.study_code ? Encrypt(object.study_code) : Encrypt("001")
+    const theme = !!object.theme ? Encrypt(object.theme!) : "dJjw5FK/FXK6qU32frXHvg=="
+    const language = !!object.language ? object.language! : "en" // too narrow a column to encrypt
+    const emergency_contact = !!object.emergency_contact ? Encrypt(object.emergency_contact!) : ""
+    const helpline = !!object.helpline ? Encrypt(object.helpline!) : ""
 
     // Insert row, returning the generated primary key ID.
-    const result1 = await SQL!.request().query(`
+    const req1 = SQL!.request()
+    req1.input("email", sql.NVarChar, Encrypt(_id + "@lamp.com"))
+    req1.input("study_code", sql.NVarChar, study_code)
+    req1.input("study_id", sql.NVarChar, Encrypt(_id))
+    req1.input("admin_id", sql.BigInt, admin_id)
+    const result1 = await req1.query(`
 			INSERT INTO Users (
                 Email, 
                 Password,
@@ -159,13 +176,13 @@ export class ParticipantRepository {
                 AdminID
             )
 			VALUES (
-		        '${Encrypt(_id + "@lamp.com")}', 
+		        @email, 
 		        '',
-		        ${study_code},
-		        '${Encrypt(_id)}',
+		        @study_code,
+		        @study_id,
 		        GETDATE(), 
 		        1,
-		        ${admin_id}
+		        @admin_id
 			);
 			SELECT SCOPE_IDENTITY() AS id;
 		`)
@@ -173,7 +190,13 @@ export class ParticipantRepository {
     // Bail early if we failed to create a User row.
     if (result1.recordset.length === 0) throw new Error("404.object-not-found")
 
-    const result2 = await SQL!.request().query(`
+    const req2 = SQL!.request()
+    req2.input("user_id", sql.BigInt, (<any>result1.recordset)[0]["id"])
+    req2.input("theme", sql.NVarChar, theme)
+    req2.input("emergency_contact", sql.NVarChar, emergency_contact)
+    req2.input("helpline", sql.NVarChar, helpline)
+    req2.input("language", sql.NVarChar, language)
+    const result2 = await req2.query(`
             INSERT INTO UserSettings (
                 UserID, 
                 AppColor,
@@ -188,19 +211,20 @@ export class ParticipantRepository {
                 Language
             )
 			VALUES (
-			    ${(<any>result1.recordset)[0]["id"]},
-		        ${theme},
+			    @user_id,
+		        @theme,
 		        1,
 		        1,
 		        1,
 		        1,
-		        ${emergency_contact},
-		        ${helpline},
+		        @emergency_contact,
+		        @helpline,
 		        '',
 		        '',
-		        ${language}
+		        @language
 			);
 		`)
+    await StudyRepository._link(study_id, "Participant", _id)
 
     // Return the new row's ID.
     return { id: _id }
@@ -220,42 +244,55 @@ export class ParticipantRepository {
      */
     object: Participant
   ): Promise<{}> {
-    // TODO: Objects here are immutable!
-    throw new Error("503.unimplemented")
-
-    /*let user_id = Encrypt(ParticipantRepository._unpack_id(participant_id).study_id)
+    const user_ids = Ciphertexts(ParticipantRepository._unpack_id(participant_id).study_id)
+    _validate(object)
 
     // Prepare the minimal SQL column changes from the provided fields.
-    let updatesA = [],
-      updatesB = [] //, updatesC = []
-    //if (!!((<any>object).password))
-    //	updatesA.push(`'Password = '${Encrypt((<any>object).password, 'AES256') || 'NULL'}'`)
-    if (!!object.study_code) updatesA.push(`StudyCode = '${Encrypt(object.study_code)}'`)
-    if (!!object.theme) updatesB.push(`AppColor = '${Encrypt(object.theme!)}'`)
-    if (!!object.language) updatesB.push(`Language = '${object.language!}'`)
-    if (!!object.emergency_contact) updatesB.push(`24By7ContactNo = '${Encrypt(object.emergency_contact!)}'`)
-    if (!!object.helpline) updatesB.push(`PersonalHelpline = '${Encrypt(object.helpline!)}'`)
+    const updatesA: { [column: string]: string | undefined } = {},
+      updatesB: { [column: string]: string | undefined } = {}
+    if (!!object.study_code) updatesA["StudyCode"] = Encrypt(object.study_code)
+    if (!!object.theme) updatesB["AppColor"] = Encrypt(object.theme!)
+    if (!!object.language) updatesB["Language"] = object.language! // too narrow a column to encrypt
+    if (object.emergency_contact !== undefined)
+      updatesB["24By7ContactNo"] = !!object.emergency_contact ? Encrypt(object.emergency_contact) : ""
+    if (object.helpline !== undefined) updatesB["PersonalHelpline"] = !!object.helpline ? Encrypt(object.helpline) : ""
 
-    // Update the specified fields on the selected Users, UserSettings, or UserDevices row.
-    let result1 = (
-      await SQL!.request().query(`
+    // Update the specified fields on the selected Users and UserSettings rows.
+    const transaction = SQL!.transaction()
+    await transaction.begin()
+    try {
+      const req1 = transaction.request()
+      Object.entries(updatesA).forEach(([key, value], idx) => req1.input(`value${idx}`, sql.NVarChar, value))
+      const result1 = await req1.query(`
             UPDATE Users 
-            SET ${updatesA.join(", ")} 
-            WHERE StudyId = ${user_id};
+            SET ${["EditedOn = GETDATE()", ...Object.keys(updatesA).map((key, idx) => `[${key}] = @value${idx}`)].join(
+              ", "
+            )} 
+            WHERE IsDeleted = 0 AND StudyId IN (${Parameter_list(req1, "study_id", user_ids)});
 		`)
-    ).recordset
+      if (result1.rowsAffected[0] === 0) throw new Error("404.object-not-found")
 
-    let result2 = (
-      await SQL!.request().query(`
+      if (Object.keys(updatesB).length > 0) {
+        const req2 = transaction.request()
+        Object.entries(updatesB).forEach(([key, value], idx) => req2.input(`value${idx}`, sql.NVarChar, value))
+        const result2 = await req2.query(`
             UPDATE UserSettings 
-            SET ${updatesB.join(", ")} 
-            LEFT JOIN Users ON Users.UserID = UserSettings.UserID 
-            WHERE StudyId = ${user_id};
+            SET ${Object.keys(updatesB)
+              .map((key, idx) => `[${key}] = @value${idx}`)
+              .join(", ")} 
+            FROM UserSettings
+            JOIN Users ON Users.UserID = UserSettings.UserID 
+            WHERE Users.IsDeleted = 0 AND Users.StudyId IN (${Parameter_list(req2, "study_id", user_ids)});
 		`)
-    ).recordset
+        if (result2.rowsAffected[0] === 0) throw new Error("404.object-not-found")
+      }
 
-    // Return whether the operation was successful.
-    return result1.length && result2.length ? {} : {}*/
+      await transaction.commit()
+      return {}
+    } catch (e) {
+      await transaction.rollback()
+      throw e
+    }
   }
 
   /**
@@ -267,15 +304,32 @@ export class ParticipantRepository {
      */
     participant_id: string
   ): Promise<{}> {
-    const user_id = Encrypt(ParticipantRepository._unpack_id(participant_id).study_id)
+    const req = SQL!.request()
+    const user_ids = Parameter_list(
+      req,
+      "study_id",
+      Ciphertexts(ParticipantRepository._unpack_id(participant_id).study_id)
+    )
 
     // Set the deletion flag, without actually deleting the row.
-    const res = await SQL!.request().query(`
-			IF EXISTS(SELECT UserID FROM Users WHERE StudyId = '${user_id}' AND IsDeleted != 1)
-				UPDATE Users SET IsDeleted = 1 WHERE StudyId = '${user_id}';
+    const res = await req.query(`
+			IF EXISTS(SELECT UserID FROM Users WHERE StudyId IN (${user_ids}) AND IsDeleted != 1)
+				UPDATE Users SET IsDeleted = 1 WHERE StudyId IN (${user_ids});
 		`)
 
     if (res.rowsAffected.length === 0 || res.rowsAffected[0] === 0) throw new Error("404.object-not-found")
+    await StudyRepository._unlink("Participant", participant_id)
     return {}
   }
 }
+
+/**
+ * Check the fields of the `Participant` that must follow a specific format: the language must be
+ * a BCP 47 language tag (e.g. "en" or "es-MX") and contacts must be (possibly international) phone numbers.
+ */
+const _validate = (object: Participant) => {
+  if (!!object.language && !/^(?=.{2,10}$)[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/.test(object.language))
+    throw new Error("400.invalid-language")
+  for (const contact of [object.emergency_contact, object.helpline])
+    if (!!contact && !/^\+?[0-9][0-9 ().-]{2,19}$/.test(contact)) throw new Error("400.invalid-phone-number")
+}
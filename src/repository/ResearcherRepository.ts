@@ -1,5 +1,5 @@
 import { SQL, Encrypt, Decrypt } from "../app"
-import { IResult } from "mssql"
+import sql, { IResult } from "mssql"
 import { Participant } from "../model/Participant"
 import { Study } from "../model/Study"
 import { Researcher } from "../model/Researcher"
@@ -64,7 +64,7 @@ export class ResearcherRepository {
       admin_id = ResearcherRepository._unpack_id(id).admin_id
     else if (!!id) throw new Error("400.invalid-identifier")
 
-    const result = await SQL!.request().query(`
+    const result = await SQL!.request().input("admin_id", sql.BigInt, admin_id).query(`
 			SELECT 
                 AdminID as id, 
                 FirstName AS name, 
@@ -78,7 +78,7 @@ export class ResearcherRepository {
             FROM Admin
             WHERE 
             	IsDeleted = 0 
-            	${!!admin_id ? `AND AdminID = '${admin_id}'` : ""}
+            	${!!admin_id ? `AND AdminID = @admin_id` : ""}
             FOR JSON PATH, INCLUDE_NULL_VALUES;
 		`)
     if (result.recordset.length === 0 || result.recordset[0] === null) return []
@@ -103,7 +103,11 @@ export class ResearcherRepository {
   ): Promise<string> {
     // Prepare SQL row-columns from JSON object-fields.
     //password: Encrypt((<any>object).password, 'AES256')
-    const result = await SQL!.request().query(`
+    const req = SQL!.request()
+    req.input("email", sql.NVarChar, Encrypt(object.email!))
+    req.input("first_name", sql.NVarChar, Encrypt(object.name!.split(" ")[0]))
+    req.input("last_name", sql.NVarChar, Encrypt(object.name!.split(" ").slice(1).join(" ")))
+    const result = await req.query(`
 			INSERT INTO Admin (
                 Email, 
                 FirstName, 
@@ -113,16 +117,16 @@ export class ResearcherRepository {
             )
             OUTPUT INSERTED.AdminID AS id
 			VALUES (
-		        '${Encrypt(object.email!)}',
-		        '${Encrypt(object.name!.split(" ")[0])}',
-		        '${Encrypt(object.name!.split(" ").slice(1).join(" "))}',
+		        @email,
+		        @first_name,
+		        @last_name,
 		        GETDATE(), 
 		        2
 			);
 		`)
     if (result.recordset.length === 0) throw new Error("400.create-failed")
 
-    const result2 = await SQL!.request().query(`
+    const result2 = await SQL!.request().input("admin_id", sql.BigInt, result.recordset[0]["id"]).query(`
 			INSERT INTO Admin_CTestSettings (
 				AdminID,
 				CTestID,
@@ -130,7 +134,7 @@ export class ResearcherRepository {
 				Notification
 			)
 			SELECT
-				${result.recordset[0]["id"]},
+				@admin_id,
 				CTestID,
 				0,
 				0
@@ -158,20 +162,26 @@ export class ResearcherRepository {
     const admin_id = ResearcherRepository._unpack_id(researcher_id).admin_id
 
     // Prepare the minimal SQL column changes from the provided fields.
+    const req = SQL!.request()
     const updates: string[] = []
     if (!!object.name) {
-      updates.push(`FirstName = '${Encrypt(object.name.split(" ")[0])}'`)
-      updates.push(`LastName = '${Encrypt(object.name.split(" ").slice(1).join(" "))}'`)
+      req.input("first_name", sql.NVarChar, Encrypt(object.name.split(" ")[0]))
+      req.input("last_name", sql.NVarChar, Encrypt(object.name.split(" ").slice(1).join(" ")))
+      updates.push(`FirstName = @first_name`, `LastName = @last_name`)
+    }
+    if (!!object.email) {
+      req.input("email", sql.NVarChar, Encrypt(object.email))
+      updates.push(`Email = @email`)
     }
-    if (!!object.email) updates.push(`Email = '${Encrypt(object.email)}'`)
     //if (!!(<any>object).password)
     //	updates.push(`Password = '${Encrypt((<any>object).password, 'AES256')}'`)
 
     if (updates.length == 0) throw new Error("400.updates-failed")
 
     // Update the specified fields on the selected Admin row.
-    const result = await SQL!.request().query(`
-			UPDATE Admin SET ${updates.join(", ")} WHERE AdminID = ${admin_id};
+    req.input("admin_id", sql.BigInt, admin_id)
+    const result = await req.query(`
+			UPDATE Admin SET ${updates.join(", ")} WHERE AdminID = @admin_id;
 		`)
 
     return {} //result.recordset[0]
@@ -190,8 +200,8 @@ export class ResearcherRepository {
     if (admin_id === 1) throw new Error("400.delete-failed")
 
     // Set the deletion flag, without actually deleting the row.
-    const result = await SQL!.request().query(`
-			UPDATE Admin SET IsDeleted = 1 WHERE AdminID = ${admin_id} AND IsDeleted = 0;
+    const result = await SQL!.request().input("admin_id", sql.BigInt, admin_id).query(`
+			UPDATE Admin SET IsDeleted = 1 WHERE AdminID = @admin_id AND IsDeleted = 0;
 		`)
     if (result.rowsAffected[0] === 0) throw new Error("404.object-not-found")
     return {}
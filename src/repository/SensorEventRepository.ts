@@ -5,11 +5,12 @@ import { SensorEvent } from "../model/SensorEvent"
 import { ResearcherRepository } from "../repository/ResearcherRepository"
 import { StudyRepository } from "../repository/StudyRepository"
 import { ParticipantRepository } from "../repository/ParticipantRepository"
-import { Identifier_unpack } from "../repository/TypeRepository"
+import { TypeRepository, Identifier_unpack, Cursor_pack, Cursor_unpack } from "../repository/TypeRepository"
+import { SensorRepository } from "../repository/SensorRepository"
+import { SensorSpecRepository } from "../repository/SensorSpecRepository"
+import { Validate, ValidateEvents } from "../utils/Validator"
 import { _migrate_sensor_event } from "./migrate"
 
-// FIXME: does not support filtering by Sensor yet.
-
 export class SensorEventRepository {
   /**
    * Get a set of `SensorEvent`s matching the criteria parameters.
@@ -35,8 +36,53 @@ export class SensorEventRepository {
      */
     to_date?: number,
 
-    limit?: number
+    limit?: number,
+
+    /**
+     * Additional constraints on the configured `Sensor` or the contents of `SensorEvent.data`.
+     */
+    filter?: { sensor?: string; data?: { [path: string]: any } }
   ): Promise<SensorEvent[]> {
+    return (await SensorEventRepository._page(id, sensor_spec, from_date, to_date, limit, undefined, filter)).data
+  }
+
+  /**
+   * Get a single page of `SensorEvent`s matching the criteria parameters, along with a
+   * cursor to continue from, which is `null` once no further pages remain.
+   */
+  public static async _page(
+    /**
+     *
+     */
+    id?: string,
+
+    /**
+     *
+     */
+    sensor_spec?: string,
+
+    /**
+     *
+     */
+    from_date?: number,
+
+    /**
+     *
+     */
+    to_date?: number,
+
+    limit?: number,
+
+    /**
+     * An opaque token returned by a previous page to continue from.
+     */
+    cursor?: string,
+
+    /**
+     * Additional constraints on the configured `Sensor` or the contents of `SensorEvent.data`.
+     */
+    filter?: { sensor?: string; data?: { [path: string]: any } }
+  ): Promise<{ data: SensorEvent[]; cursor: string | null }> {
     _migrate_sensor_event()
 
     // Get the correctly scoped identifier to search within.
@@ -50,33 +96,46 @@ export class SensorEventRepository {
     else if (!!id) throw new Error("400.invalid-identifier")
     //user_id = !!user_id ? Encrypt(user_id) : undefined
 
-    const all_res = (
-      await Database.use("sensor_event").find({
-        selector: {
-          "#parent": id!,
-          sensor: sensor_spec!,
-          timestamp:
-            from_date === undefined && to_date === undefined
-              ? (undefined as any)
-              : {
-                  $gte: from_date,
-                  $lt: from_date === to_date ? to_date! + 1 : to_date,
-                },
-        },
+    // Continue in the same sort order as the page that produced the cursor, if any.
+    const _cursor = cursor !== undefined ? Cursor_unpack(cursor) : undefined
+    const order = _cursor?.order ?? (!!limit && limit < 0 ? "asc" : "desc")
+    const page_size = Math.abs(limit ?? 1000)
+    const selector = await _selector(id, sensor_spec, from_date, to_date, filter)
+
+    // Events are always parented by their Participant, so a Study or Researcher is searched through its
+    // Participants, a batch at a time, continuing into the next batch whenever one runs out.
+    const parents = !!admin_id ? await _parents(id!) : [selector["#parent"]]
+    let batch = _cursor?.batch ?? 0
+    let bookmark = _cursor?.bookmark || undefined
+    const docs: any[] = []
+    while (batch < parents.length && docs.length < page_size) {
+      const requested = page_size - docs.length
+      const result = await Database.use("sensor_event").find({
+        selector: { ...selector, "#parent": parents[batch] },
         sort: [
-          {
-            timestamp: !!limit && limit < 0 ? "asc" : "desc",
-          },
+          ...(parents[batch] !== undefined ? [{ "#parent": order }] : []),
+          ...(typeof selector.sensor === "string" ? [{ sensor: order }] : []),
+          { timestamp: order },
         ],
-        limit: Math.abs(limit ?? 1000),
+        limit: requested,
+        bookmark,
       })
-    ).docs.map((x) => ({
+      docs.push(...result.docs)
+      if (result.docs.length < requested) {
+        batch += 1
+        bookmark = undefined
+      } else bookmark = result.bookmark
+    }
+    const all_res = docs.map((x) => ({
       ...x,
       _id: undefined,
       _rev: undefined,
       "#parent": undefined,
     })) as any
-    return all_res
+    return {
+      data: all_res,
+      cursor: batch >= parents.length ? null : Cursor_pack({ bookmark: bookmark ?? "", order, batch }),
+    }
 
     // Perform a group-by operation on the participant ID if needed.
     /*return !admin_id
@@ -91,6 +150,157 @@ export class SensorEventRepository {
         }, <any>{})*/
   }
 
+  /**
+   * Walk every `SensorEvent` matching the criteria parameters in ascending time order,
+   * handing each page to the callback as it arrives instead of accumulating them.
+   */
+  public static async _export(
+    /**
+     *
+     */
+    id: string,
+
+    /**
+     *
+     */
+    sensor_spec: string | undefined,
+
+    /**
+     *
+     */
+    from_date: number | undefined,
+
+    /**
+     *
+     */
+    to_date: number | undefined,
+
+    /**
+     * Additional constraints on the configured `Sensor` or the contents of `SensorEvent.data`.
+     */
+    filter: { sensor?: string; data?: { [path: string]: any } } | undefined,
+
+    /**
+     * Invoked once per page; the next page is not requested until it resolves, and none at all
+     * if it resolves to `false`.
+     */
+    callback: (events: SensorEvent[]) => boolean | void | Promise<boolean | void>
+  ): Promise<void> {
+    let cursor: string | undefined
+    do {
+      const page = await SensorEventRepository._page(id, sensor_spec, from_date, to_date, -1000, cursor, filter)
+      if (page.data.length > 0 && (await callback(page.data)) === false) return
+      cursor = page.cursor ?? undefined
+    } while (cursor !== undefined)
+  }
+
+  /**
+   * Compute the count, sum, mean, min and max of a numeric field of `SensorEvent.data`
+   * within consecutive time buckets, aligned to local midnight in the given time zone.
+   * The `value` field of a single `SensorSpec` is reduced by CouchDB; any other is computed
+   * by streaming every event.
+   */
+  public static async _aggregate(
+    /**
+     * The `StudyId` column of the `Users` table in the LAMP v0.1 DB.
+     */
+    participant_id: string,
+
+    /**
+     *
+     */
+    sensor_spec: string,
+
+    /**
+     *
+     */
+    from_date: number | undefined,
+
+    /**
+     *
+     */
+    to_date: number | undefined,
+
+    /**
+     * The bucket width in milliseconds.
+     */
+    bucket: number,
+
+    /**
+     * The dotted path of the numeric field within `SensorEvent.data`.
+     */
+    field = "value",
+
+    /**
+     * An IANA time zone name (i.e. `America/New_York`) or UTC offset (i.e. `-05:00`), which defaults
+     * to the `lamp.time_zone` attachment of the `Participant`, or UTC.
+     */
+    time_zone?: string
+  ): Promise<{ timestamp: number; count: number; sum: number; mean: number; min: number; max: number }[]> {
+    const offset = _time_zone_offset(time_zone ?? (await _stored_time_zone(participant_id)))
+    const week = 7 * 24 * 60 * 60 * 1000
+    const anchor = bucket % week === 0 ? 4 * 24 * 60 * 60 * 1000 : 0 // weeks begin on Monday, not Thursday
+    if (field === "value" && !sensor_spec.includes(",")) {
+      const output = await _reduce(participant_id, sensor_spec, from_date, to_date, bucket, anchor, offset)
+      if (output !== undefined) return output
+    }
+
+    const buckets: { [key: number]: { timestamp: number; count: number; sum: number; min: number; max: number } } = {}
+
+    await SensorEventRepository._export(participant_id, sensor_spec, from_date, to_date, undefined, (events) => {
+      for (const event of events) {
+        const value = Number.parse(field.split(".").reduce((obj, key) => obj?.[key], event.data))
+        if (value === undefined || event.timestamp === undefined) continue
+        const local = event.timestamp + offset(event.timestamp)
+        const start = Math.floor((local - anchor) / bucket) * bucket + anchor
+        const x = buckets[start]
+        if (x === undefined)
+          buckets[start] = { timestamp: start - offset(event.timestamp), count: 1, sum: value, min: value, max: value }
+        else {
+          x.count += 1
+          x.sum += value
+          x.min = Math.min(x.min, value)
+          x.max = Math.max(x.max, value)
+        }
+      }
+    })
+    return Object.keys(buckets)
+      .map((key) => buckets[Number(key)])
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .map((x) => ({ ...x, mean: x.sum / x.count }))
+  }
+
+  /**
+   * Create the Mango indexes backing `_select`, and the check for a `SensorSpec` in use by any `SensorEvent`,
+   * so that queries never fall back to full scans, along with the view backing `_aggregate`.
+   */
+  public static async _create_indexes(): Promise<void> {
+    try {
+      await Database.use("sensor_event").insert({
+        _id: "_design/aggregate",
+        views: {
+          value: {
+            map: `function (doc) {
+              if (typeof doc.timestamp !== "number" || doc.data === null || typeof doc.data !== "object") return
+              if (doc.data.value === null || doc.data.value === undefined) return
+              var value = Number(doc.data.value)
+              if (!isNaN(value)) emit([doc["#parent"], doc.sensor, doc.timestamp], value)
+            }`,
+            reduce: "_stats",
+          },
+        },
+      } as any)
+    } catch (e) {
+      if (e.statusCode !== 409) throw e
+    }
+    for (const fields of [["#parent", "timestamp"], ["#parent", "sensor", "timestamp"], ["sensor"]])
+      await Database.use("sensor_event").createIndex({
+        index: { fields },
+        ddoc: `index-${fields.join("-").replace("#", "")}`,
+        name: `index-${fields.join("-").replace("#", "")}`,
+      })
+  }
+
   /**
    * Create a `SensorEvent` with a new object.
    */
@@ -104,8 +314,14 @@ export class SensorEventRepository {
      * The new object.
      */
     objects: SensorEvent[]
-  ): Promise<{}> {
+  ): Promise<{ rejected?: { index: number; errors: string[] }[]; warnings?: { index: number; errors: string[] }[] }> {
     //_migrate_sensor_event()
+
+    // Validate each event against the `data_schema` of its `SensorSpec` and, if the participant's
+    // study is in "reject" mode, drop any invalid events instead of only reporting them.
+    const validated = await ValidateEvents(participant_id, objects, "lamp.sensor_event.validation", await _validator())
+    objects = validated.objects
+
     const data = await Database.use("sensor_event").bulk({
       docs: (objects as any[]).map((x) => ({
         "#parent": participant_id,
@@ -116,7 +332,7 @@ export class SensorEventRepository {
     })
     const output = data.filter((x) => !!x.error)
     if (output.length > 0) console.error(output)
-    return {}
+    return validated.result
   }
 
   /**
@@ -142,8 +358,225 @@ export class SensorEventRepository {
      *
      */
     to_date?: number
-  ): Promise<{}> {
-    throw new Error("503.unimplemented")
-    return {}
+  ): Promise<number> {
+    // Collect and tombstone matching documents in fixed-size batches until none remain.
+    let deleted = 0
+    while (true) {
+      const batch = (
+        await Database.use("sensor_event").find({
+          selector: await _selector(participant_id, sensor_spec, from_date, to_date),
+          fields: ["_id", "_rev"],
+          limit: 1000,
+        })
+      ).docs
+      if (batch.length === 0) break
+      const data = await Database.use("sensor_event").bulk({
+        docs: batch.map((x) => ({ _id: x._id, _rev: x._rev, _deleted: true })),
+      })
+      const output = data.filter((x) => !!x.error)
+      if (output.length > 0) console.error(output)
+      deleted += data.length - output.length
+      if (output.length === data.length) throw new Error("500.delete-failed")
+    }
+    return deleted
+  }
+}
+
+/**
+ * The number of Participants whose events are searched at once when searching a `Study` or `Researcher`.
+ */
+const PARENTS_PER_BATCH = 100
+
+/**
+ * Get the `#parent` selectors covering every `Participant` of a `Study` or `Researcher`, in batches.
+ */
+const _parents = async (id: string): Promise<{ $in: string[] }[]> => {
+  const participants = (await ParticipantRepository._select(id)).map((x) => x.id as string)
+  const output: { $in: string[] }[] = []
+  for (let i = 0; i < participants.length; i += PARENTS_PER_BATCH)
+    output.push({ $in: participants.slice(i, i + PARENTS_PER_BATCH) })
+  return output
+}
+
+/**
+ * Build the Mango selector for the criteria parameters. The `sensor_spec` may be a
+ * comma-separated list of `SensorSpec` names, and `filter.sensor` is resolved into
+ * the `SensorSpec` of that configured `Sensor`, which must belong to the scoped object.
+ */
+const _selector = async (
+  id?: string,
+  sensor_spec?: string,
+  from_date?: number,
+  to_date?: number,
+  filter: { sensor?: string; data?: { [path: string]: any } } = {}
+): Promise<any> => {
+  let specs = !!sensor_spec ? sensor_spec.split(",").map((x) => x.trim()) : undefined
+  if (!!filter.sensor) {
+    const sensor = (await SensorRepository._select(filter.sensor))[0] as any
+    if (sensor === undefined || !(await _configured_for(id, filter.sensor))) throw new Error("404.sensor-not-found")
+    specs = specs === undefined || specs.includes(sensor.spec) ? [sensor.spec] : []
+  }
+  return {
+    ..._data_selector(filter.data),
+    "#parent": id!,
+    sensor: specs === undefined ? (undefined as any) : specs.length === 1 ? specs[0] : { $in: specs },
+    timestamp:
+      from_date === undefined && to_date === undefined
+        ? (undefined as any)
+        : {
+            $gte: from_date,
+            $lt: from_date === to_date ? to_date! + 1 : to_date,
+          },
+  }
+}
+
+/**
+ * Whether a `Sensor` was configured for the scoped object: in the same `Study` as it (or the `Study` itself),
+ * or by the `Researcher` itself.
+ */
+const _configured_for = async (id: string | undefined, sensor_id: string): Promise<boolean> => {
+  if (!id) return true
+  if (Identifier_unpack(id)[0] === (<any>Researcher).name)
+    return id === (await SensorRepository._parent_id(sensor_id, ResearcherRepository))
+  const study_id = await SensorRepository._parent_id(sensor_id, StudyRepository)
+  if (Identifier_unpack(id)[0] === (<any>Study).name) return id === study_id
+  return study_id === (await TypeRepository._parent_id(id, "Study"))
+}
+
+/**
+ * Translate a predicate of `{ "path.within.data": condition }` pairs into Mango selector
+ * fields, where each condition is a plain value or an object of comparison operators.
+ */
+const _data_selector = (predicate?: { [path: string]: any }): any => {
+  if (predicate === undefined) return {}
+  if (typeof predicate !== "object" || predicate === null || Array.isArray(predicate))
+    throw new Error("400.invalid-data-filter")
+  const operators = ["$eq", "$ne", "$gt", "$gte", "$lt", "$lte", "$in", "$nin", "$exists"]
+  const output: any = {}
+  for (const [path, condition] of Object.entries(predicate)) {
+    if (!/^[A-Za-z0-9_]+(\.[A-Za-z0-9_]+)*$/.test(path)) throw new Error("400.invalid-data-filter")
+    if (
+      typeof condition === "object" &&
+      condition !== null &&
+      Object.keys(condition).some((x) => !operators.includes(x))
+    )
+      throw new Error("400.invalid-data-filter")
+    output[`data.${path}`] = condition
+  }
+  return output
+}
+
+/**
+ * The time zone a `Participant` has configured by its `lamp.time_zone` attachment, or UTC.
+ */
+const _stored_time_zone = async (participant_id: string): Promise<string> => {
+  try {
+    const value = await TypeRepository._get("a", participant_id, "lamp.time_zone")
+    _time_zone_offset(value)
+    return value
+  } catch (e) {
+    return "UTC"
+  }
+}
+
+/**
+ * The most buckets `_reduce` computes, one range of the `aggregate/value` view each, before it is cheaper
+ * to stream the events instead, and the number of those ranges requested at once.
+ */
+const REDUCE_MAX_BUCKETS = 5000
+const REDUCE_BATCH_SIZE = 100
+
+/**
+ * Compute the buckets of `_aggregate` for the `value` field from the `aggregate/value` view, or `undefined`
+ * if the events span too many of them.
+ */
+const _reduce = async (
+  participant_id: string,
+  sensor_spec: string,
+  from_date: number | undefined,
+  to_date: number | undefined,
+  bucket: number,
+  anchor: number,
+  offset: (timestamp: number) => number
+): Promise<{ timestamp: number; count: number; sum: number; mean: number; min: number; max: number }[] | undefined> => {
+  const view = (params: any): Promise<any> => Database.use("sensor_event").view("aggregate", "value", params)
+  const key = (timestamp?: number): any[] => [participant_id, sensor_spec, timestamp ?? {}]
+  const end = from_date !== undefined && from_date === to_date ? to_date + 1 : to_date
+
+  // Find the first and last events within the range, to only compute the buckets between them.
+  const lower = from_date === undefined ? [participant_id, sensor_spec] : key(from_date)
+  const first = (await view({ reduce: false, limit: 1, startkey: lower, endkey: key(end), inclusive_end: false }))
+    .rows[0]?.key[2]
+  const last = (await view({ reduce: false, limit: 1, descending: true, startkey: key(end), endkey: lower })).rows[0]
+    ?.key[2]
+  if (first === undefined || last === undefined) return []
+
+  // Bucket boundaries are aligned in local time, and then converted back to UTC.
+  const local = (timestamp: number): number =>
+    Math.floor((timestamp + offset(timestamp) - anchor) / bucket) * bucket + anchor
+  const utc = (timestamp: number): number => timestamp - offset(timestamp - offset(timestamp))
+  const starts: number[] = []
+  for (let start = local(first); start <= local(end === undefined ? last : Math.min(last, end)); start += bucket) {
+    starts.push(start)
+    if (starts.length > REDUCE_MAX_BUCKETS) return undefined
+  }
+
+  const output: { timestamp: number; count: number; sum: number; mean: number; min: number; max: number }[] = []
+  for (let i = 0; i < starts.length; i += REDUCE_BATCH_SIZE) {
+    const batch = starts.slice(i, i + REDUCE_BATCH_SIZE)
+    const { results } = await view({
+      queries: batch.map((start) => ({
+        startkey: key(Math.max(utc(start), from_date ?? -Infinity)),
+        endkey: key(Math.min(utc(start + bucket), end ?? Infinity)),
+        inclusive_end: false,
+        reduce: true,
+      })),
+    })
+    batch.forEach((start, idx) => {
+      const x = results[idx].rows[0]?.value
+      if (x === undefined || x.count === 0) return
+      output.push({ timestamp: utc(start), count: x.count, sum: x.sum, mean: x.sum / x.count, min: x.min, max: x.max })
+    })
+  }
+  return output
+}
+
+/**
+ * Produce a function yielding the offset from UTC (in milliseconds) of the time zone at a given
+ * timestamp. Offsets are cached per hour, as no time zone transitions more often than that.
+ */
+const _time_zone_offset = (time_zone: string): ((timestamp: number) => number) => {
+  const fixed = time_zone.match(/^([+-])(0\d|1[0-4]):?([0-5]\d)$/)
+  if (!!fixed) {
+    const value = (fixed[1] === "-" ? -1 : 1) * (Number(fixed[2]) * 60 + Number(fixed[3])) * 60 * 1000
+    return () => value
+  }
+  try {
+    new Date(0).toLocaleString("en-US", { timeZone: time_zone })
+  } catch (e) {
+    throw new Error("400.invalid-time-zone")
+  }
+  const cache: { [hour: number]: number } = {}
+  return (timestamp: number) => {
+    const hour = Math.floor(timestamp / (60 * 60 * 1000))
+    if (cache[hour] === undefined) {
+      const date = new Date(timestamp)
+      cache[hour] =
+        new Date(date.toLocaleString("en-US", { timeZone: time_zone })).getTime() -
+        new Date(date.toLocaleString("en-US", { timeZone: "UTC" })).getTime()
+    }
+    return cache[hour]
+  }
+}
+
+/**
+ * Get a function validating the `data` of an event against the `data_schema` of the `SensorSpec` named
+ * by its `sensor`, returning its failures.
+ */
+const _validator = async (): Promise<(event: SensorEvent) => string[]> => {
+  const specs = (await SensorSpecRepository._select()).filter((x) => !!x.data_schema)
+  return (event) => {
+    const spec = specs.find((x) => x.name === String(event.sensor))
+    return spec === undefined ? [] : Validate(spec.data_schema, event.data ?? {}, "/data")
   }
 }
@@ -1,7 +1,61 @@
 import { Database } from "../app"
-import { Sensor } from "../model/Sensor"
+import { Sensor, SensorSettings } from "../model/Sensor"
+import { Study } from "../model/Study"
+import { Researcher } from "../model/Researcher"
+import { ResearcherRepository } from "../repository/ResearcherRepository"
+import { StudyRepository } from "../repository/StudyRepository"
+import { SensorSpecRepository } from "../repository/SensorSpecRepository"
+import { TypeRepository, Identifier_pack, Identifier_unpack } from "../repository/TypeRepository"
+import { Validate } from "../utils/Validator"
+import { customAlphabet } from "nanoid"
+const uuid = customAlphabet("1234567890abcdefghjkmnpqrstvwxyz", 20) // crockford-32
 
 export class SensorRepository {
+  /**
+   *
+   */
+  public static _pack_id(components: {
+    /**
+     * The `_id` of the document in the `sensor` database.
+     */
+    sensor_id?: string
+  }): string {
+    return Identifier_pack([(<any>Sensor).name, components.sensor_id || ""])
+  }
+
+  /**
+   *
+   */
+  public static _unpack_id(
+    id: string
+  ): {
+    /**
+     * The `_id` of the document in the `sensor` database.
+     */
+    sensor_id: string
+  } {
+    const components = Identifier_unpack(id)
+    if (components[0] !== (<any>Sensor).name || !components[1]) throw new Error("400.invalid-identifier")
+    return {
+      sensor_id: components[1],
+    }
+  }
+
+  /**
+   *
+   */
+  public static async _parent_id(id: string, type: Function): Promise<string | undefined> {
+    const study_id = (await _get(id))["#parent"]
+    switch (type) {
+      case StudyRepository:
+        return study_id
+      case ResearcherRepository:
+        return await StudyRepository._parent_id(study_id, ResearcherRepository)
+      default:
+        throw new Error("400.invalid-identifier")
+    }
+  }
+
   /**
    * Get a set of `Sensor`s matching the criteria parameters.
    */
@@ -11,12 +65,24 @@ export class SensorRepository {
      */
     id?: string
   ): Promise<Sensor[]> {
-    const data = await Database.use("sensor").list({ include_docs: true, start_key: id, end_key: id })
-    return (data.rows as any).map((x: any) => ({
-      id: x.doc._id,
-      ...x.doc,
-      _id: undefined,
-      _rev: undefined,
+    // Get the correctly scoped identifier to search within.
+    let selector: any
+    if (!!id && Identifier_unpack(id)[0] === (<any>Sensor).name)
+      selector = { _id: SensorRepository._unpack_id(id).sensor_id }
+    else if (!!id && Identifier_unpack(id)[0] === (<any>Study).name) selector = { "#parent": id }
+    else if (!!id && Identifier_unpack(id)[0] === (<any>Researcher).name)
+      selector = { "#parent": { $in: (await StudyRepository._select(id)).map((x) => x.id) } }
+    else if (!!id && Identifier_unpack(id).length === 0 /* Participant */)
+      selector = { "#parent": await TypeRepository._parent_id(id, "Study") }
+    else if (!!id) throw new Error("400.invalid-identifier")
+    else selector = { _id: { $gt: null } }
+
+    const data = await Database.use("sensor").find({ selector, limit: 2147483647 })
+    return data.docs.map((x: any) => ({
+      id: SensorRepository._pack_id({ sensor_id: x._id }),
+      spec: x.spec,
+      name: x.name,
+      settings: x.settings,
     }))
   }
 
@@ -24,15 +90,30 @@ export class SensorRepository {
    * Create a `Sensor` with a new object.
    */
   public static async _insert(
-    id: string,
+    /**
+     * The `Study` the `Sensor` configures.
+     */
+    study_id: string,
+
     /**
      * The new object.
      */
     object: Sensor
   ): Promise<string> {
-    // TODO: Sensors do not exist! They cannot be modified!
-    throw new Error("503.unimplemented")
-    return ""
+    if (Identifier_unpack(study_id)[0] !== (<any>Study).name) throw new Error("400.invalid-identifier")
+    if (typeof object.spec !== "string" || object.spec.length === 0) throw new Error("400.sensor-requires-spec")
+    await _validate_settings(object.spec, object.settings)
+    await StudyRepository._require(study_id)
+
+    const sensor_id = uuid()
+    await Database.use("sensor").insert({
+      _id: sensor_id,
+      "#parent": study_id,
+      spec: object.spec,
+      name: object.name ?? "",
+      settings: object.settings ?? {},
+    } as any)
+    return SensorRepository._pack_id({ sensor_id })
   }
 
   /**
@@ -40,18 +121,28 @@ export class SensorRepository {
    */
   public static async _update(
     /**
-     *
+     * The `Sensor` to update.
      */
-    sensor_spec_name: string,
+    sensor_id: string,
 
     /**
      * The replacement object or specific fields within.
      */
     object: Sensor
   ): Promise<string> {
-    // TODO: Sensors do not exist! They cannot be modified!
-    throw new Error("503.unimplemented")
-    return ""
+    const orig = await _get(sensor_id)
+    if (object.spec !== undefined && object.spec !== orig.spec)
+      throw new Error("400.update-failed-changing-sensor-spec-is-illegal")
+    if (object.settings !== undefined) await _validate_settings(orig.spec, object.settings)
+
+    await _conflict(
+      Database.use("sensor").insert({
+        ...orig,
+        name: object.name ?? orig.name,
+        settings: object.settings ?? orig.settings,
+      })
+    )
+    return sensor_id
   }
 
   /**
@@ -59,12 +150,62 @@ export class SensorRepository {
    */
   public static async _delete(
     /**
-     *
+     * The `Sensor` to delete.
      */
-    sensor_spec_name: string
+    sensor_id: string
   ): Promise<string> {
-    // TODO: Sensors do not exist! They cannot be modified!
-    throw new Error("503.unimplemented")
-    return ""
+    const orig = await _get(sensor_id)
+    await _conflict(Database.use("sensor").destroy(orig._id, orig._rev))
+    return sensor_id
+  }
+}
+
+/**
+ * Get the stored document for a `Sensor`, failing if it does not exist.
+ */
+const _get = async (id: string): Promise<any> => {
+  try {
+    return await Database.use("sensor").get(SensorRepository._unpack_id(id).sensor_id)
+  } catch (e) {
+    if (e.statusCode === 404) throw new Error("404.object-not-found")
+    throw e
+  }
+}
+
+/**
+ * Validate the settings of a `Sensor`: the sampling `frequency` (in Hz), `duty_cycle` (the fraction of time
+ * spent sampling) and `enabled` flag common to every sensor, and the rest against the `settings_schema` of its
+ * `SensorSpec`, which must exist.
+ */
+const _validate_settings = async (spec: string, settings?: SensorSettings) => {
+  const sensor_spec = (await SensorSpecRepository._select(spec))[0]
+  if (sensor_spec === undefined) throw new Error("404.sensor-spec-not-found")
+  const errors = [
+    ...Validate(
+      {
+        type: "object",
+        properties: {
+          frequency: { type: "number", exclusiveMinimum: 0 },
+          duty_cycle: { type: "number", minimum: 0, maximum: 1 },
+          enabled: { type: "boolean" },
+        },
+      },
+      settings ?? {},
+      "/settings"
+    ),
+    ...Validate(sensor_spec.settings_schema, settings ?? {}, "/settings"),
+  ]
+  if (errors.length > 0) throw new Error(`400.invalid-settings: ${errors.join("; ")}`)
+}
+
+/**
+ * Fail with `409` if the stored document was changed by someone else since it was read.
+ */
+const _conflict = async <T>(request: Promise<T>): Promise<T> => {
+  try {
+    return await request
+  } catch (e) {
+    if (e.statusCode === 409) throw new Error("409.update-conflict")
+    throw e
   }
 }
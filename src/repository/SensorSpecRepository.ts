@@ -1,5 +1,7 @@
 import { Database } from "../app"
 import { SensorSpec } from "../model/SensorSpec"
+import { SensorRepository } from "../repository/SensorRepository"
+import { ValidateSchema } from "../utils/Validator"
 
 export class SensorSpecRepository {
   /**
@@ -29,9 +31,20 @@ export class SensorSpecRepository {
      */
     object: SensorSpec
   ): Promise<string> {
-    // TODO: SensorSpecs do not exist! They cannot be modified!
-    throw new Error("503.unimplemented")
-    return ""
+    if (typeof object.name !== "string" || object.name.length === 0) throw new Error("400.sensor-spec-requires-name")
+    _validate_schemas(object)
+    try {
+      await Database.use("sensor_spec").insert({
+        _id: object.name,
+        name: object.name,
+        settings_schema: object.settings_schema,
+        data_schema: object.data_schema,
+      } as any)
+    } catch (e) {
+      if (e.statusCode === 409) throw new Error("409.sensor-spec-already-exists")
+      throw e
+    }
+    return object.name
   }
 
   /**
@@ -39,7 +52,7 @@ export class SensorSpecRepository {
    */
   public static async _update(
     /**
-     *
+     * The name of the `SensorSpec`.
      */
     sensor_spec_name: string,
 
@@ -48,9 +61,18 @@ export class SensorSpecRepository {
      */
     object: SensorSpec
   ): Promise<string> {
-    // TODO: SensorSpecs do not exist! They cannot be modified!
-    throw new Error("503.unimplemented")
-    return ""
+    if (object.name !== undefined && object.name !== sensor_spec_name)
+      throw new Error("400.update-failed-renaming-sensor-spec-is-illegal")
+    const orig: any = await _get(sensor_spec_name)
+    const updated = {
+      ...orig,
+      // Only fields left out are kept; `null` clears a schema.
+      settings_schema: object.settings_schema !== undefined ? object.settings_schema : orig.settings_schema,
+      data_schema: object.data_schema !== undefined ? object.data_schema : orig.data_schema,
+    }
+    _validate_schemas(updated)
+    await _conflict(Database.use("sensor_spec").insert(updated))
+    return sensor_spec_name
   }
 
   /**
@@ -58,12 +80,51 @@ export class SensorSpecRepository {
    */
   public static async _delete(
     /**
-     *
+     * The name of the `SensorSpec`.
      */
     sensor_spec_name: string
   ): Promise<string> {
-    // TODO: SensorSpecs do not exist! They cannot be modified!
-    throw new Error("503.unimplemented")
-    return ""
+    const orig: any = await _get(sensor_spec_name)
+    if ((await SensorRepository._select()).some((x) => x.spec === sensor_spec_name))
+      throw new Error("400.sensor-spec-in-use")
+    const events = await Database.use("sensor_event").find({ selector: { sensor: sensor_spec_name }, limit: 1 })
+    if (events.docs.length > 0) throw new Error("400.sensor-spec-in-use")
+    await _conflict(Database.use("sensor_spec").destroy(orig._id, orig._rev))
+    return sensor_spec_name
+  }
+}
+
+/**
+ * Get the stored document for a `SensorSpec`, failing if it does not exist.
+ */
+const _get = async (sensor_spec_name: string): Promise<any> => {
+  try {
+    return await Database.use("sensor_spec").get(sensor_spec_name)
+  } catch (e) {
+    if (e.statusCode === 404) throw new Error("404.object-not-found")
+    throw e
+  }
+}
+
+/**
+ * Check that each of the schema fields of the `SensorSpec` is itself a valid JSON Schema.
+ */
+const _validate_schemas = (object: SensorSpec): void => {
+  const errors = [
+    ...ValidateSchema(object.settings_schema, "/settings_schema"),
+    ...ValidateSchema(object.data_schema, "/data_schema"),
+  ]
+  if (errors.length > 0) throw new Error(`400.invalid-schema: ${errors.join("; ")}`)
+}
+
+/**
+ * Fail with `409` if the stored document was changed by someone else since it was read.
+ */
+const _conflict = async <T>(request: Promise<T>): Promise<T> => {
+  try {
+    return await request
+  } catch (e) {
+    if (e.statusCode === 409) throw new Error("409.update-conflict")
+    throw e
   }
 }
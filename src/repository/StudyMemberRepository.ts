@@ -0,0 +1,168 @@
+import { SQL } from "../app"
+import sql from "mssql"
+import { StudyMember, StudyRole } from "../model/StudyMember"
+import { ResearcherRepository } from "../repository/ResearcherRepository"
+import { StudyRepository } from "../repository/StudyRepository"
+
+/**
+ * What each role on a `Study` team allows: the highest access level of the scopes it may use, and the fields
+ * stripped from whatever it reads. Analysts only see de-identified data, without any contact fields or the
+ * coordinates of location sensor events.
+ */
+export const StudyMember_roles: { [role in StudyRole]: { access: "read" | "write" | "admin"; redact: string[] } } = {
+  owner: { access: "admin", redact: [] },
+  coordinator: { access: "write", redact: [] },
+  clinician: { access: "read", redact: [] },
+  analyst: {
+    access: "read",
+    redact: ["email", "address", "emergency_contact", "helpline", "latitude", "longitude", "altitude"],
+  },
+}
+
+export class StudyMemberRepository {
+  /**
+   * Get the members of a `Study` team.
+   */
+  public static async _select(
+    /**
+     * The `Study` whose team to list.
+     */
+    study_id: string
+  ): Promise<StudyMember[]> {
+    const { admin_id, study_id: _study_id } = StudyRepository._unpack_id(study_id)
+    const req = SQL!.request()
+    req.input("admin_id", sql.BigInt, admin_id)
+    req.input("study_id", sql.BigInt, _study_id)
+    const result = await req.query(`
+      SELECT MemberID AS member_id, Role AS role
+      FROM LAMP_Aux.dbo.StudyMember
+      WHERE AdminID = @admin_id AND StudyID = @study_id
+      ORDER BY CreatedOn
+    ;`)
+    return result.recordset.map((x) => ({
+      study_id,
+      researcher_id: ResearcherRepository._pack_id({ admin_id: x.member_id }),
+      role: x.role,
+    }))
+  }
+
+  /**
+   * Get the `Study` teams a `Researcher` is a member of.
+   */
+  public static async _studies(
+    /**
+     * The member `Researcher`.
+     */
+    researcher_id: string
+  ): Promise<StudyMember[]> {
+    const result = await SQL!
+      .request()
+      .input("member_id", sql.BigInt, ResearcherRepository._unpack_id(researcher_id).admin_id).query(`
+      SELECT StudyMember.AdminID AS admin_id, StudyMember.StudyID AS study_id, StudyMember.Role AS role
+      FROM LAMP_Aux.dbo.StudyMember
+      JOIN Admin
+        ON Admin.AdminID = StudyMember.AdminID
+      WHERE Admin.IsDeleted = 0 AND StudyMember.MemberID = @member_id
+      ORDER BY StudyMember.CreatedOn
+    ;`)
+    return result.recordset.map((x) => ({
+      study_id: StudyRepository._pack_id({ admin_id: x.admin_id, study_id: x.study_id }),
+      researcher_id,
+      role: x.role,
+    }))
+  }
+
+  /**
+   * Get the role of a `Researcher` on a `Study` team, if they are a member.
+   */
+  public static async _role(study_id: string, researcher_id: string): Promise<StudyRole | undefined> {
+    const { admin_id, study_id: _study_id } = StudyRepository._unpack_id(study_id)
+    const req = SQL!.request()
+    req.input("admin_id", sql.BigInt, admin_id)
+    req.input("study_id", sql.BigInt, _study_id)
+    req.input("member_id", sql.BigInt, ResearcherRepository._unpack_id(researcher_id).admin_id)
+    const result = await req.query(`
+      SELECT Role AS role
+      FROM LAMP_Aux.dbo.StudyMember
+      WHERE AdminID = @admin_id AND StudyID = @study_id AND MemberID = @member_id
+    ;`)
+    return result.recordset.length === 0 ? undefined : result.recordset[0].role
+  }
+
+  /**
+   * Add a `Researcher` to a `Study` team, or change their role if they are already a member.
+   */
+  public static async _insert(
+    /**
+     * The `Study` whose team to join.
+     */
+    study_id: string,
+
+    /**
+     * The new member.
+     */
+    object: StudyMember
+  ): Promise<StudyMember> {
+    const { admin_id, study_id: _study_id } = StudyRepository._unpack_id(study_id)
+    if (typeof object.researcher_id !== "string") throw new Error("400.member-requires-researcher-id")
+    if (object.role === undefined || !Object.keys(StudyMember_roles).includes(object.role))
+      throw new Error("400.invalid-study-role")
+    const member_id = ResearcherRepository._unpack_id(object.researcher_id).admin_id
+    if (member_id === admin_id) throw new Error("400.researcher-already-owns-study")
+
+    const exists = (
+      await SQL!.request().input("member_id", sql.BigInt, member_id).query(`
+        SELECT AdminID FROM Admin WHERE IsDeleted = 0 AND AdminID = @member_id
+      ;`)
+    ).recordset
+    if (exists.length === 0) throw new Error("404.researcher-not-found")
+
+    const req = SQL!.request()
+    req.input("admin_id", sql.BigInt, admin_id)
+    req.input("study_id", sql.BigInt, _study_id)
+    req.input("member_id", sql.BigInt, member_id)
+    req.input("role", sql.NVarChar, object.role)
+    await req.query(`
+      MERGE INTO LAMP_Aux.dbo.StudyMember WITH (HOLDLOCK) AS Target
+      USING (SELECT @admin_id AS AdminID, @study_id AS StudyID, @member_id AS MemberID) AS Source
+        ON Target.AdminID = Source.AdminID AND Target.StudyID = Source.StudyID AND Target.MemberID = Source.MemberID
+      WHEN MATCHED THEN
+        UPDATE SET Role = @role
+      WHEN NOT MATCHED THEN
+        INSERT (AdminID, StudyID, MemberID, Role)
+        VALUES (@admin_id, @study_id, @member_id, @role)
+    ;`)
+    return { study_id, researcher_id: object.researcher_id, role: object.role }
+  }
+
+  /**
+   * Remove a `Researcher` from a `Study` team, or everyone if no member is given.
+   */
+  public static async _delete(
+    /**
+     * The `Study` whose team to leave.
+     */
+    study_id: string,
+
+    /**
+     * The member to remove.
+     */
+    researcher_id?: string
+  ): Promise<number> {
+    const { admin_id, study_id: _study_id } = StudyRepository._unpack_id(study_id)
+    const req = SQL!.request()
+    req.input("admin_id", sql.BigInt, admin_id)
+    req.input("study_id", sql.BigInt, _study_id)
+    req.input(
+      "member_id",
+      sql.BigInt,
+      researcher_id !== undefined ? ResearcherRepository._unpack_id(researcher_id).admin_id : null
+    )
+    const result = await req.query(`
+      DELETE FROM LAMP_Aux.dbo.StudyMember
+      WHERE AdminID = @admin_id AND StudyID = @study_id AND (@member_id IS NULL OR MemberID = @member_id)
+    ;`)
+    if (researcher_id !== undefined && result.rowsAffected[0] === 0) throw new Error("404.member-not-found")
+    return result.rowsAffected[0]
+  }
+}
@@ -1,5 +1,5 @@
 import { SQL, Encrypt, Decrypt } from "../app"
-import { IResult } from "mssql"
+import sql, { IResult } from "mssql"
 import { Activity } from "../model/Activity"
 import { Participant } from "../model/Participant"
 import { Study } from "../model/Study"
@@ -7,6 +7,7 @@ import { Researcher } from "../model/Researcher"
 import { ResearcherRepository } from "../repository/ResearcherRepository"
 import { ParticipantRepository } from "../repository/ParticipantRepository"
 import { ActivityRepository } from "../repository/ActivityRepository"
+import { StudyMemberRepository } from "../repository/StudyMemberRepository"
 import { Identifier_unpack, Identifier_pack } from "../repository/TypeRepository"
 
 export class StudyRepository {
@@ -18,8 +19,15 @@ export class StudyRepository {
      *
      */
     admin_id?: number
+
+    /**
+     * The `StudyID` column of the `Study` table in the LAMP_Aux DB, or 0 for the default study.
+     */
+    study_id?: number
   }): string {
-    return Identifier_pack([(<any>Study).name, components.admin_id || 0])
+    // The default study of each researcher keeps the original `Study:<admin_id>` layout.
+    if (!components.study_id) return Identifier_pack([(<any>Study).name, components.admin_id || 0])
+    return Identifier_pack([(<any>Study).name, components.admin_id || 0, components.study_id])
   }
 
   /**
@@ -32,15 +40,123 @@ export class StudyRepository {
      *
      */
     admin_id: number
+
+    /**
+     * The `StudyID` column of the `Study` table in the LAMP_Aux DB, or 0 for the default study.
+     */
+    study_id: number
   } {
     const components = Identifier_unpack(id)
     if (components[0] !== (<any>Study).name) throw new Error("400.invalid-identifier")
     const result = components.slice(1).map((x) => Number.parse(x) ?? 0)
     return {
       admin_id: result[0],
+      study_id: result[1] ?? 0,
     }
   }
 
+  /**
+   * Get the `Study` an object belongs to: either the study it was created in, or its researcher's default study.
+   */
+  public static async _study_of(
+    admin_id: number,
+    type: "Participant" | "Activity",
+    object_id: string
+  ): Promise<string> {
+    const req = SQL!.request()
+    req.input("admin_id", sql.BigInt, admin_id)
+    req.input("type", sql.NVarChar, type)
+    req.input("object_id", sql.NVarChar, object_id)
+    const result = (
+      await req.query(`
+        SELECT TOP 1 StudyLinker.StudyID AS value
+        FROM LAMP_Aux.dbo.StudyLinker
+        JOIN LAMP_Aux.dbo.Study
+          ON Study.StudyID = StudyLinker.StudyID
+        WHERE Study.IsDeleted = 0
+          AND Study.AdminID = @admin_id
+          AND StudyLinker.ObjectType = @type
+          AND StudyLinker.ObjectID = @object_id
+      ;`)
+    ).recordset
+    return StudyRepository._pack_id({ admin_id, study_id: result.length === 0 ? 0 : result[0].value })
+  }
+
+  /**
+   * Get a predicate matching the IDs of the objects of the given type that belong to the `Study`.
+   * Objects not linked to any other study belong to their researcher's default study.
+   */
+  public static async _scope(
+    study_id: string,
+    type: "Participant" | "Activity"
+  ): Promise<(object_id: string) => boolean> {
+    const { admin_id, study_id: _study_id } = StudyRepository._unpack_id(study_id)
+    const links = (await _links(admin_id)).filter((x) => x.type === type)
+    return _study_id > 0
+      ? (object_id) => links.some((x) => x.id === object_id && x.study_id === _study_id)
+      : (object_id) => !links.some((x) => x.id === object_id)
+  }
+
+  /**
+   * Fail with `404` unless the `Study` exists and belongs to the researcher its ID names. A default study
+   * exists as long as its researcher does.
+   */
+  public static async _require(study_id: string, transaction?: sql.Transaction): Promise<void> {
+    const { admin_id, study_id: _study_id } = StudyRepository._unpack_id(study_id)
+    const req = (transaction ?? SQL!).request()
+    req.input("admin_id", sql.BigInt, admin_id)
+    req.input("study_id", sql.BigInt, _study_id)
+    const result = await req.query(
+      _study_id === 0
+        ? `SELECT AdminID FROM Admin WHERE IsDeleted = 0 AND AdminID = @admin_id;`
+        : `SELECT StudyID FROM LAMP_Aux.dbo.Study WHERE IsDeleted = 0 AND AdminID = @admin_id AND StudyID = @study_id;`
+    )
+    if (result.recordset.length === 0) throw new Error("404.study-does-not-exist")
+  }
+
+  /**
+   * Record that a newly created object belongs to the `Study`, failing with `404` unless the `Study` exists
+   * and belongs to the researcher its ID names. Nothing is recorded for default studies.
+   */
+  public static async _link(
+    study_id: string,
+    type: "Participant" | "Activity",
+    object_id: string,
+    transaction?: sql.Transaction
+  ): Promise<void> {
+    const { admin_id, study_id: _study_id } = StudyRepository._unpack_id(study_id)
+    if (_study_id === 0) return
+    const req = (transaction ?? SQL!).request()
+    req.input("admin_id", sql.BigInt, admin_id)
+    req.input("study_id", sql.BigInt, _study_id)
+    req.input("type", sql.NVarChar, type)
+    req.input("object_id", sql.NVarChar, object_id)
+    const result = await req.query(`
+      INSERT INTO LAMP_Aux.dbo.StudyLinker (StudyID, ObjectType, ObjectID)
+      SELECT StudyID, @type, @object_id
+      FROM LAMP_Aux.dbo.Study WITH (UPDLOCK, HOLDLOCK)
+      WHERE IsDeleted = 0 AND AdminID = @admin_id AND StudyID = @study_id
+    ;`)
+    if (result.rowsAffected[0] === 0) throw new Error("404.study-does-not-exist")
+  }
+
+  /**
+   * Remove any record of the `Study` a deleted object belonged to.
+   */
+  public static async _unlink(
+    type: "Participant" | "Activity",
+    object_id: string,
+    transaction?: sql.Transaction
+  ): Promise<void> {
+    const req = (transaction ?? SQL!).request()
+    req.input("type", sql.NVarChar, type)
+    req.input("object_id", sql.NVarChar, object_id)
+    await req.query(`
+      DELETE FROM LAMP_Aux.dbo.StudyLinker
+      WHERE ObjectType = @type AND ObjectID = @object_id
+    ;`)
+  }
+
   /**
    *
    */
@@ -65,12 +181,14 @@ export class StudyRepository {
   ): Promise<Study[]> {
     // Get the correctly scoped identifier to search within.
     let admin_id: number | undefined
+    let study_id: number | undefined
     if (!!id && Identifier_unpack(id)[0] === (<any>Researcher).name)
       admin_id = ResearcherRepository._unpack_id(id).admin_id
-    else if (!!id && Identifier_unpack(id)[0] === (<any>Study).name) admin_id = StudyRepository._unpack_id(id).admin_id
+    else if (!!id && Identifier_unpack(id)[0] === (<any>Study).name)
+      ({ admin_id, study_id } = StudyRepository._unpack_id(id))
     else if (!!id) throw new Error("400.invalid-identifier")
 
-    const result = await SQL!.request().query(`
+    const result = await SQL!.request().input("admin_id", sql.BigInt, admin_id).query(`
 			SELECT 
                 Admin.AdminID AS id, 
                 ('Default Study') AS name, 
@@ -109,20 +227,29 @@ export class StudyRepository {
                 ON Admin_Settings.AdminID = Admin.AdminID
             WHERE 
             	IsDeleted = 0 
-            	${!!admin_id ? `AND Admin.AdminID = '${admin_id}'` : ""}
+            	${!!admin_id ? `AND Admin.AdminID = @admin_id` : ""}
             FOR JSON PATH, INCLUDE_NULL_VALUES;
 		`)
 
     if (result.recordset.length === 0) return []
 
-    return result.recordset[0].map((raw: any) => {
-      const obj = new Study()
-      obj.id = StudyRepository._pack_id({ admin_id: raw.id })
-      obj.name = raw.name
-      obj.participants = (raw.participants || []).map((x: any) => {
+    // Every researcher has a default study, holding any participants and activities not created in another study.
+    const studies = (
+      await SQL!.request().input("admin_id", sql.BigInt, admin_id).input("study_id", sql.BigInt, study_id).query(`
+        SELECT StudyID AS id, AdminID AS admin_id, Name AS name
+        FROM LAMP_Aux.dbo.Study
+        WHERE IsDeleted = 0
+          ${!!admin_id ? `AND AdminID = @admin_id` : ""}
+          ${!!study_id ? `AND StudyID = @study_id` : ""}
+      ;`)
+    ).recordset
+    const links = await _links(admin_id)
+
+    return (result.recordset[0] as any[]).reduce((all: Study[], raw: any) => {
+      const participants: string[] = (raw.participants || []).map((x: any) => {
         return Decrypt(x.id)
       })
-      obj.activities = [].concat(
+      const activities: string[] = [].concat(
         (raw.surveys || []).map((x: any) => {
           return ActivityRepository._pack_id({
             ctest_id: 0,
@@ -145,8 +272,30 @@ export class StudyRepository {
           })
         })
       )
-      return obj
-    })
+      const _linked = (type: string, linked_study_id?: number) => (object_id: string) =>
+        links.some(
+          (x) =>
+            x.type === type && x.id === object_id && (linked_study_id === undefined || x.study_id === linked_study_id)
+        )
+
+      if (!study_id) {
+        const obj = new Study()
+        obj.id = StudyRepository._pack_id({ admin_id: raw.id })
+        obj.name = raw.name
+        obj.participants = participants.filter((x) => !_linked("Participant")(x))
+        obj.activities = activities.filter((x) => !_linked("Activity")(x))
+        all.push(obj)
+      }
+      for (const study of studies.filter((x) => x.admin_id === raw.id)) {
+        const obj = new Study()
+        obj.id = StudyRepository._pack_id({ admin_id: raw.id, study_id: study.id })
+        obj.name = study.name
+        obj.participants = participants.filter(_linked("Participant", study.id))
+        obj.activities = activities.filter(_linked("Activity", study.id))
+        all.push(obj)
+      }
+      return all
+    }, [])
   }
 
   /**
@@ -163,9 +312,17 @@ export class StudyRepository {
      */
     object: Study
   ): Promise<string> {
-    // TODO: Studies do not exist! They cannot be modified!
-    throw new Error("503.unimplemented")
-    return ""
+    const { admin_id } = ResearcherRepository._unpack_id(researcher_id)
+    const req = SQL!.request()
+    req.input("name", sql.NVarChar, object.name ?? "new_study")
+    req.input("admin_id", sql.BigInt, admin_id)
+    const result = await req.query(`
+      INSERT INTO LAMP_Aux.dbo.Study (AdminID, Name)
+      OUTPUT INSERTED.StudyID AS id
+      VALUES (@admin_id, @name)
+    ;`)
+    if (result.recordset.length === 0) throw new Error("400.create-failed")
+    return StudyRepository._pack_id({ admin_id, study_id: result.recordset[0].id })
   }
 
   /**
@@ -182,9 +339,20 @@ export class StudyRepository {
      */
     object: Study
   ): Promise<string> {
-    // TODO: Studies do not exist! They cannot be modified!
-    throw new Error("503.unimplemented")
-    return ""
+    const { admin_id, study_id: _study_id } = StudyRepository._unpack_id(study_id)
+    if (_study_id === 0) throw new Error("400.update-failed-default-study-is-immutable")
+    if (object.name === undefined) return study_id
+    const req = SQL!.request()
+    req.input("name", sql.NVarChar, object.name)
+    req.input("study_id", sql.BigInt, _study_id)
+    req.input("admin_id", sql.BigInt, admin_id)
+    const result = await req.query(`
+      UPDATE LAMP_Aux.dbo.Study
+      SET Name = @name
+      WHERE IsDeleted = 0 AND StudyID = @study_id AND AdminID = @admin_id
+    ;`)
+    if (result.rowsAffected[0] === 0) throw new Error("404.object-not-found")
+    return study_id
   }
 
   /**
@@ -196,8 +364,38 @@ export class StudyRepository {
      */
     study_id: string
   ): Promise<string> {
-    // TODO: Studies do not exist! They cannot be modified!
-    throw new Error("503.unimplemented")
-    return ""
+    const { admin_id, study_id: _study_id } = StudyRepository._unpack_id(study_id)
+    if (_study_id === 0) throw new Error("400.delete-failed-default-study-is-immutable")
+    if ((await _links(admin_id)).some((x) => x.study_id === _study_id))
+      throw new Error("400.delete-failed-study-not-empty")
+
+    // Set the deletion flag, without actually deleting the row.
+    const req = SQL!.request()
+    req.input("study_id", sql.BigInt, _study_id)
+    req.input("admin_id", sql.BigInt, admin_id)
+    const result = await req.query(`
+      UPDATE LAMP_Aux.dbo.Study
+      SET IsDeleted = 1
+      WHERE IsDeleted = 0 AND StudyID = @study_id AND AdminID = @admin_id
+    ;`)
+    if (result.rowsAffected[0] === 0) throw new Error("404.object-not-found")
+    await StudyMemberRepository._delete(study_id)
+    return study_id
   }
 }
+
+/**
+ * Get every object recorded as belonging to a (non-default) `Study` of the researcher, or of all researchers.
+ */
+const _links = async (admin_id?: number): Promise<{ study_id: number; type: string; id: string }[]> => {
+  return (
+    await SQL!.request().input("admin_id", sql.BigInt, admin_id).query(`
+      SELECT StudyLinker.StudyID AS study_id, StudyLinker.ObjectType AS type, StudyLinker.ObjectID AS id
+      FROM LAMP_Aux.dbo.StudyLinker
+      JOIN LAMP_Aux.dbo.Study
+        ON Study.StudyID = StudyLinker.StudyID
+      WHERE Study.IsDeleted = 0
+        ${!!admin_id ? `AND Study.AdminID = @admin_id` : ""}
+    ;`)
+  ).recordset
+}
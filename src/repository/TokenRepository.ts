@@ -0,0 +1,181 @@
+import { SQL } from "../app"
+import sql from "mssql"
+import crypto from "crypto"
+import { Token } from "../model/Token"
+import { CredentialRepository } from "../repository/CredentialRepository"
+
+// The lifetime, in seconds, of each kind of token.
+const ACCESS_TOKEN_TTL = 15 * 60
+const REFRESH_TOKEN_TTL = 30 * 24 * 60 * 60
+
+export class TokenRepository {
+  /**
+   * Issue a new access and refresh token pair for the identity authenticated by a Credential.
+   */
+  public static async _issue(
+    /**
+     * The ID of the authenticated identity, or `root`.
+     */
+    sub: string,
+
+    /**
+     * The access key of the Credential the identity was authenticated with.
+     */
+    cred: string,
+
+    /**
+     * The scopes the Credential is limited to, if any.
+     */
+    scopes?: string[]
+  ): Promise<Token> {
+    // Note which secret key the identity signed in with, so that changing it revokes the refresh token.
+    const identity = await CredentialRepository._identity(sub, cred)
+    if (identity === undefined) throw new Error("403.no-such-credentials")
+    const ver = _version(identity.secret)
+    const now = Math.floor(Date.now() / 1000)
+    return {
+      access_token: _sign({ typ: "access", sub, cred, scopes, jti: _jti(), iat: now, exp: now + ACCESS_TOKEN_TTL }),
+      refresh_token: _sign({
+        typ: "refresh",
+        sub,
+        cred,
+        scopes,
+        ver,
+        jti: _jti(),
+        iat: now,
+        exp: now + REFRESH_TOKEN_TTL,
+      }),
+      token_type: "Bearer",
+      expires_in: ACCESS_TOKEN_TTL,
+    }
+  }
+
+  /**
+   * Issue a cosign token letting an automation act on behalf of an identity, but only on one object and
+   * only for as long as the automation may run.
+   */
+  public static _cosign(
+    /**
+     * The ID of the identity the automation acts on behalf of.
+     */
+    sub: string,
+
+    /**
+     * The ID of the object the automation was run for, which the token is limited to.
+     */
+    aud: string,
+
+    /**
+     * The lifetime of the token, in seconds.
+     */
+    ttl: number
+  ): string {
+    const now = Math.floor(Date.now() / 1000)
+    return _sign({ typ: "cosign", sub, aud, jti: _jti(), iat: now, exp: now + ttl })
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair. The refresh token is revoked, so it may only be used once.
+   */
+  public static async _refresh(refresh_token: string): Promise<Token> {
+    const claims = await TokenRepository._unpack(refresh_token, "refresh")
+
+    // Stop issuing tokens once the identity or the Credential they originated from has been deleted or expired,
+    // or its secret key has changed since, and pick up any change to its scopes.
+    const identity = await CredentialRepository._identity(claims.sub, claims.cred)
+    await TokenRepository._revoke(refresh_token)
+    if (identity === undefined || _version(identity.secret) !== claims.ver) throw new Error("401.token-revoked")
+    return await TokenRepository._issue(claims.sub, claims.cred, identity.scopes)
+  }
+
+  /**
+   * Verify the signature, type, expiry, and revocation status of a token, returning its claims.
+   */
+  public static async _unpack(
+    token: string,
+    typ: "access" | "refresh" | "cosign"
+  ): Promise<{
+    typ: string
+    sub: string
+    cred: string
+    aud?: string
+    scopes?: string[]
+    ver?: string
+    jti: string
+    iat: number
+    exp: number
+  }> {
+    const claims = _decode(token)
+    if (claims?.typ !== typ || typeof claims.sub !== "string" || typeof claims.jti !== "string")
+      throw new Error("401.invalid-token")
+    if (typ === "cosign" && typeof claims.aud !== "string") throw new Error("401.invalid-token")
+    if (!(claims.exp > Math.floor(Date.now() / 1000))) throw new Error("401.token-expired")
+
+    const result = await SQL!.request().input("token_id", sql.NVarChar, claims.jti).query(`
+			SELECT TokenID
+			FROM LAMP_Aux.dbo.RevokedToken
+			WHERE TokenID = @token_id
+		;`)
+    if (result.recordset.length > 0) throw new Error("401.token-revoked")
+    return claims
+  }
+
+  /**
+   * Add a token to the revocation list. Expired entries are pruned along the way, since their tokens
+   * can no longer be used regardless.
+   */
+  public static async _revoke(token: string): Promise<{}> {
+    const claims = _decode(token)
+    if (typeof claims?.jti !== "string" || typeof claims.exp !== "number") throw new Error("400.invalid-token")
+
+    const req = SQL!.request()
+    req.input("token_id", sql.NVarChar, claims.jti)
+    req.input("expires_on", sql.DateTime, new Date(claims.exp * 1000))
+    await req.query(`
+			DELETE FROM LAMP_Aux.dbo.RevokedToken
+			WHERE ExpiresOn < GETUTCDATE()
+			;
+			IF NOT EXISTS (SELECT TokenID FROM LAMP_Aux.dbo.RevokedToken WHERE TokenID = @token_id)
+				INSERT INTO LAMP_Aux.dbo.RevokedToken (TokenID, ExpiresOn)
+				VALUES (@token_id, @expires_on)
+		;`)
+    return {}
+  }
+}
+
+/**
+ * Tokens are signed with `TOKEN_KEY`, and none are issued or accepted unless it is configured.
+ */
+const _signature = (payload: string): string => {
+  const key = Buffer.from(process.env.TOKEN_KEY || "", "hex")
+  if (key.length === 0) throw new Error("500.token-key-not-configured")
+  return crypto.createHmac("sha256", key).update(payload).digest("base64").replace(/=/g, "~")
+}
+
+const _sign = (claims: any): string => {
+  const payload = Buffer.from(JSON.stringify(claims)).toString("base64").replace(/=/g, "~")
+  return `${payload}.${_signature(payload)}`
+}
+
+/**
+ * Get the claims of a token, or `undefined` if it was not signed by us.
+ */
+const _decode = (token: string): any => {
+  const [payload, signature] = token.split(".", 2)
+  if (!payload || !signature) return undefined
+  const expected = _signature(payload)
+  if (signature.length !== expected.length || !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected)))
+    return undefined
+  try {
+    return JSON.parse(Buffer.from(payload.replace(/~/g, "="), "base64").toString("utf8"))
+  } catch (e) {
+    return undefined
+  }
+}
+
+const _jti = (): string => crypto.randomBytes(16).toString("hex")
+
+/**
+ * A fingerprint of a stored secret key, which changes whenever it does without revealing anything about it.
+ */
+const _version = (secret: string): string => _signature(`ver:${secret}`).slice(0, 16)
@@ -1,4 +1,4 @@
-import { SQL, Encrypt, Decrypt, Root } from "../app"
+import { SQL, Decrypt } from "../app"
 import ScriptRunner from "../utils/ScriptRunner"
 import sql from "mssql"
 import { Participant } from "../model/Participant"
@@ -10,6 +10,12 @@ import { ResearcherRepository } from "../repository/ResearcherRepository"
 import { ParticipantRepository } from "../repository/ParticipantRepository"
 import { StudyRepository } from "../repository/StudyRepository"
 import { ActivityRepository } from "../repository/ActivityRepository"
+import { SensorRepository } from "../repository/SensorRepository"
+import { TokenRepository } from "../repository/TokenRepository"
+
+// The number of seconds a script may run before it is given up on, which is also how long the cosign token
+// it is handed remains valid.
+const SCRIPT_TIMEOUT = Number.parse(process.env.SCRIPT_TIMEOUT) ?? 5 * 60
 
 export function Identifier_pack(components: any[]): string {
   if (components.length === 0) return ""
@@ -22,6 +28,31 @@ export function Identifier_unpack(components: string): any[] {
     .split(":")
 }
 
+export function Cursor_pack(components: { bookmark: string; order: "asc" | "desc"; batch?: number }): string {
+  return Buffer.from(
+    JSON.stringify([components.bookmark, components.order, ...(!!components.batch ? [components.batch] : [])])
+  )
+    .toString("base64")
+    .replace(/=/g, "~")
+}
+export function Cursor_unpack(cursor: string): { bookmark: string; order: "asc" | "desc"; batch: number } {
+  try {
+    const [bookmark, order, batch = 0] = JSON.parse(Buffer.from(cursor.replace(/~/g, "="), "base64").toString("utf8"))
+    if (typeof bookmark === "string" && (order === "asc" || order === "desc") && Number.isInteger(batch) && batch >= 0)
+      return { bookmark, order, batch }
+  } catch (e) {}
+  throw new Error("400.invalid-cursor")
+}
+
+/**
+ * Bind each of the values as a numbered parameter of the request, returning the parameter list for an SQL `IN` clause.
+ */
+export function Parameter_list(req: sql.Request, name: string, values: any[], type: any = sql.NVarChar): string {
+  if (values.length === 0) return "NULL"
+  values.forEach((x, idx) => req.input(`${name}${idx}`, type, x))
+  return values.map((_, idx) => `@${name}${idx}`).join(", ")
+}
+
 export class TypeRepository {
   public static async _parent(type_id: string): Promise<{}> {
     const result: any = {} // obj['#parent'] === [null, undefined] -> top-level object
@@ -48,6 +79,7 @@ export class TypeRepository {
       Study: ["Researcher"],
       Participant: ["Study", "Researcher"],
       Activity: ["Study", "Researcher"],
+      Sensor: ["Study", "Researcher"],
     }
     /*
 		// TODO:
@@ -74,6 +106,7 @@ export class TypeRepository {
       Study: StudyRepository,
       Participant: ParticipantRepository,
       Activity: ActivityRepository,
+      Sensor: SensorRepository,
     }
     return await (<any>self_type[TypeRepository._self_type(type_id)])._parent_id(type_id, self_type[type])
   }
@@ -83,24 +116,27 @@ export class TypeRepository {
    */
   public static async _set(mode: "a" | "b", type: string, id: string, key: string, value?: DynamicAttachment | any) {
     let result: sql.IResult<any>
+    const req = SQL!.request()
+    req.input("type", sql.NVarChar, type)
+    req.input("id", sql.NVarChar, id)
+    req.input("key", sql.NVarChar, key)
     if (mode === "a" && !value /* null | undefined */) {
-      /* DELETE */ result = await SQL!.request().query(`
+      /* DELETE */ result = await req.query(`
 	            DELETE FROM LAMP_Aux.dbo.OOLAttachment
 	            WHERE 
-	                ObjectID = '${id}'
-	                AND [Key] = '${key}'
-	                AND ObjectType = '${type}';
+	                ObjectID = @id
+	                AND [Key] = @key
+	                AND ObjectType = @type;
 			`)
     } else if (mode === "a" && !!value /* JSON value */) {
-      /* INSERT or UPDATE */ const req = SQL!.request()
-      req.input("json_value", sql.NVarChar, JSON.stringify(value))
+      /* INSERT or UPDATE */ req.input("json_value", sql.NVarChar, JSON.stringify(value))
       result = await req.query(`
 	            MERGE INTO LAMP_Aux.dbo.OOLAttachment
 	                WITH (HOLDLOCK) AS Output
 	            USING (SELECT
-	                '${type}' AS ObjectType,
-	                '${id}' AS ObjectID,
-	                '${key}' AS [Key]
+	                @type AS ObjectType,
+	                @id AS ObjectID,
+	                @key AS [Key]
 	            ) AS Input(ObjectType, ObjectID, [Key])
 	            ON (
 	                Output.[Key] = Input.[Key] 
@@ -114,31 +150,32 @@ export class TypeRepository {
 	                    ObjectType, ObjectID, [Key], Value
 	                )
 	                VALUES (
-	                    '${type}', '${id}', '${key}', @json_value
+	                    @type, @id, @key, @json_value
 	                );
 			`)
     } else if (mode === "b" && !value /* null | undefined */) {
-      /* DELETE */ result = await SQL!.request().query(`
+      /* DELETE */ result = await req.query(`
 	            DELETE FROM LAMP_Aux.dbo.OOLAttachmentLinker 
 	            WHERE 
-	                AttachmentKey = '${key}'
-	                AND ObjectID = '${id}'
-	                AND ChildObjectType = '${type}';
+	                AttachmentKey = @key
+	                AND ObjectID = @id
+	                AND ChildObjectType = @type;
 			`)
     } else if (mode === "b" && !!value /* DynamicAttachment */) {
       /* INSERT or UPDATE */ const { triggers, language, contents, requirements } = value
       const script_type = JSON.stringify({ language, triggers })
       const packages = JSON.stringify(requirements) || ""
 
-      const req = SQL!.request()
+      req.input("script_type", sql.NVarChar, script_type)
       req.input("script_contents", sql.NVarChar, contents)
+      req.input("packages", sql.NVarChar, packages)
       result = await req.query(`
 	            MERGE INTO LAMP_Aux.dbo.OOLAttachmentLinker 
 	                WITH (HOLDLOCK) AS Output
 	            USING (SELECT
-	                '${key}' AS AttachmentKey,
-	                '${id}' AS ObjectID,
-	                '${type}' AS ChildObjectType
+	                @key AS AttachmentKey,
+	                @id AS ObjectID,
+	                @type AS ChildObjectType
 	            ) AS Input(AttachmentKey, ObjectID, ChildObjectType)
 	            ON (
 	                Output.AttachmentKey = Input.AttachmentKey 
@@ -147,17 +184,17 @@ export class TypeRepository {
 	            )
 	            WHEN MATCHED THEN 
 	                UPDATE SET 
-	                	ScriptType = '${script_type}',
+	                	ScriptType = @script_type,
 	                	ScriptContents = @script_contents, 
-	                	ReqPackages = '${packages}'
+	                	ReqPackages = @packages
 	            WHEN NOT MATCHED THEN 
 	                INSERT (
 	                    AttachmentKey, ObjectID, ChildObjectType, 
 	                    ScriptType, ScriptContents, ReqPackages
 	                )
 	                VALUES (
-	                    '${key}', '${id}', '${type}',
-	                    '${script_type}', @script_contents, '${packages}'
+	                    @key, @id, @type,
+	                    @script_type, @script_contents, @packages
 	                );
 			`)
     }
@@ -172,21 +209,23 @@ export class TypeRepository {
     const from_type: string = components.length === 0 ? (<any>Participant).name : components[0]
     let parents = await TypeRepository._parent(<string>id)
     if (Object.keys(parents).length === 0) parents = { " ": " " } // for the SQL 'IN' operator
+    const req = SQL!.request()
+    req.input("id", sql.NVarChar, id)
+    req.input("key", sql.NVarChar, key)
+    req.input("from_type", sql.NVarChar, from_type)
 
     if (mode === "a") {
       const result = (
-        await SQL!.request().query(`
+        await req.query(`
 	            SELECT TOP 1 * 
 	            FROM LAMP_Aux.dbo.OOLAttachment
-	            WHERE [Key] = '${key}'
+	            WHERE [Key] = @key
 	                AND ((
-	                	ObjectID = '${id}'
+	                	ObjectID = @id
 	                	AND ObjectType = 'me'
 	                ) OR (
-	                	ObjectID IN (${Object.values(parents)
-                      .map((x) => `'${x}'`)
-                      .join(", ")})
-	                	AND ObjectType IN ('${from_type}', '${id}')
+	                	ObjectID IN (${Parameter_list(req, "parent", Object.values(parents))})
+	                	AND ObjectType IN (@from_type, @id)
 	                ));
 			`)
       ).recordset
@@ -195,18 +234,16 @@ export class TypeRepository {
       return JSON.parse(result[0].Value)
     } else if (mode === "b") {
       const result = (
-        await SQL!.request().query(`
+        await req.query(`
 	            SELECT TOP 1 * 
 	            FROM LAMP_Aux.dbo.OOLAttachmentLinker
-	            WHERE AttachmentKey = '${key}'
+	            WHERE AttachmentKey = @key
 	            	AND ((
-	                	ObjectID = '${id}'
+	                	ObjectID = @id
 	                	AND ChildObjectType = 'me'
 	                ) OR (
-	                	ObjectID IN (${Object.values(parents)
-                      .map((x) => `'${x}'`)
-                      .join(", ")})
-	                	AND ChildObjectType IN ('${from_type}', '${id}')
+	                	ObjectID IN (${Parameter_list(req, "parent", Object.values(parents))})
+	                	AND ChildObjectType IN (@from_type, @id)
 	                ));
 			`)
       ).recordset
@@ -237,38 +274,37 @@ export class TypeRepository {
     const from_type: string = components.length === 0 ? (<any>Participant).name : components[0]
     let parents = await TypeRepository._parent(<string>id)
     if (Object.keys(parents).length === 0) parents = { " ": " " } // for the SQL 'IN' operator
+    const req = SQL!.request()
+    req.input("id", sql.NVarChar, id)
+    req.input("from_type", sql.NVarChar, from_type)
 
     if (mode === "a") {
       // Request all static attachments.
       return (
-        await SQL!.request().query(`
+        await req.query(`
 	            SELECT [Key]
 	            FROM LAMP_Aux.dbo.OOLAttachment
 	            WHERE (
-	                	ObjectID = '${id}'
+	                	ObjectID = @id
 	                	AND ObjectType = 'me'
 	                ) OR (
-	                	ObjectID IN (${Object.values(parents)
-                      .map((x) => `'${x}'`)
-                      .join(", ")})
-	                	AND ObjectType IN ('${from_type}', '${id}')
+	                	ObjectID IN (${Parameter_list(req, "parent", Object.values(parents))})
+	                	AND ObjectType IN (@from_type, @id)
 	                );
 			`)
       ).recordset.map((x) => x.Key)
     } else {
       // Request all dynamic attachments.
       return (
-        await SQL!.request().query(`
+        await req.query(`
 	            SELECT AttachmentKey
 	            FROM LAMP_Aux.dbo.OOLAttachmentLinker
 	            WHERE (
-	                	ObjectID = '${id}'
+	                	ObjectID = @id
 	                	AND ChildObjectType = 'me'
 	                ) OR (
-	                	ObjectID IN (${Object.values(parents)
-                      .map((x) => `'${x}'`)
-                      .join(", ")})
-	                	AND ChildObjectType IN ('${from_type}', '${id}')
+	                	ObjectID IN (${Parameter_list(req, "parent", Object.values(parents))})
+	                	AND ChildObjectType IN (@from_type, @id)
 	                );
 			`)
       ).recordset.map((x) => x.AttachmentKey)
@@ -300,8 +336,18 @@ export class TypeRepository {
         throw new Error("400.invalid-script-runner")
     }
 
-    // Execute script.
-    return await runner.execute(attachment.contents!, attachment.requirements!.join(","), context)
+    // Execute script, giving up once it has run out of time.
+    let timer: NodeJS.Timeout | undefined
+    try {
+      return await Promise.race([
+        runner.execute(attachment.contents!, attachment.requirements!.join(","), context),
+        new Promise((resolve, reject) => {
+          timer = setTimeout(() => reject(new Error("504.script-timeout")), SCRIPT_TIMEOUT * 1000)
+        }),
+      ])
+    } finally {
+      if (timer !== undefined) clearTimeout(timer)
+    }
   }
 
   /**
@@ -390,17 +436,10 @@ export class TypeRepository {
       })
     ;(<any[]>[]).concat(...working_set).forEach((x) =>
       TypeRepository._invoke(x, {
-        /* The security context originator for the script 
-				   with a magic placeholder to indicate to the LAMP server
-				   that the script's API requests are pre-authenticated. */
-        token:
-          "LAMP" +
-          Encrypt(
-            JSON.stringify({
-              identity: { from: x.from, to: x.to },
-              cosigner: Root,
-            })
-          ),
+        /* The security context originator for the script, as a token signed
+				   by the LAMP server that lets the script's API requests act on behalf
+				   of the originator, but only on this object and only until it times out. */
+        token: "LAMP" + TokenRepository._cosign(<string>x.from, x.to, SCRIPT_TIMEOUT),
 
         /* What object was this automation run for on behalf of an agent? */
         object: {
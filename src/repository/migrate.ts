@@ -1,4 +1,5 @@
 import { Database, SQL, Encrypt, Decrypt } from "../app"
+import sql from "mssql"
 import { SensorEvent, SensorName, LocationContext, SocialContext } from "../model/SensorEvent"
 import { ActivityEvent, TemporalSlice } from "../model/ActivityEvent"
 import { ActivityRepository } from "../repository/ActivityRepository"
@@ -57,7 +58,7 @@ export async function _migrate_sensor_event() {
     console.dir(`sensor_event migration from ${change_version ?? 0} to ${next_version ?? 0}`)
 
     const result1 = (
-      await SQL!.request().query(`
+      await SQL!.request().input("change_version", sql.BigInt, change_version ?? null).query(`
         SELECT 
             timestamp, 
             type, 
@@ -82,7 +83,7 @@ export async function _migrate_sensor_event() {
             WHERE U.data != ''
                 AND HKDailyValueID IN (
                     SELECT C.HKDailyValueID
-                    FROM CHANGETABLE(CHANGES HealthKit_DailyValues, ${change_version ?? "NULL"}) AS C 
+                    FROM CHANGETABLE(CHANGES HealthKit_DailyValues, @change_version) AS C 
                     WHERE SYS_CHANGE_CONTEXT IS NULL
                 )
             UNION ALL 
@@ -100,7 +101,7 @@ export async function _migrate_sensor_event() {
                 ON HealthKit_Parameters.HKParamID = HealthKit_ParamValues.HKParamID
             WHERE HKParamValueID IN (
                 SELECT C.HKParamValueID
-                FROM CHANGETABLE(CHANGES HealthKit_ParamValues, ${change_version ?? "NULL"}) AS C 
+                FROM CHANGETABLE(CHANGES HealthKit_ParamValues, @change_version) AS C 
                 WHERE SYS_CHANGE_CONTEXT IS NULL
             )
         ) X
@@ -121,7 +122,7 @@ export async function _migrate_sensor_event() {
     }
 
     const result2 = (
-      await SQL!.request().query(`
+      await SQL!.request().input("change_version", sql.BigInt, change_version ?? null).query(`
 	SELECT 
         DATEDIFF_BIG(MS, '1970-01-01', Locations.CreatedOn) AS timestamp,
         Latitude AS lat,
@@ -133,7 +134,7 @@ export async function _migrate_sensor_event() {
         ON Locations.UserID = Users.UserID
     WHERE LocationID IN (
         SELECT C.LocationID
-        FROM CHANGETABLE(CHANGES Locations, ${change_version ?? "NULL"}) AS C 
+        FROM CHANGETABLE(CHANGES Locations, @change_version) AS C 
         WHERE SYS_CHANGE_CONTEXT IS NULL
     )
     ;`)
@@ -233,7 +234,9 @@ export async function _migrate_activity_event(): Promise<void> {
       // Perform the result lookup for every Activity table.
       // prettier-ignore
       const events = (
-        await SQL!.request().query(`
+        await SQL!.request()
+          .input("change_version", sql.BigInt, change_version ?? null)
+          .input("ctest_id", sql.BigInt, entry.LegacyCTestID).query(`
 				SELECT
           Users.StudyId AS uid,
           [${entry.IndexColumnName}] AS id,
@@ -279,14 +282,14 @@ export async function _migrate_activity_event(): Promise<void> {
             SELECT AdminCTestSettingID 
               FROM Admin_CTestSettings
               WHERE Admin_CTestSettings.AdminID = Users.AdminID
-                AND Admin_CTestSettings.CTestID = ${entry.LegacyCTestID}
+                AND Admin_CTestSettings.CTestID = @ctest_id
             ) AS aid` : `SurveyID AS aid`}
         FROM [${entry.TableName}]
         LEFT JOIN Users
             ON [${entry.TableName}].UserID = Users.UserID
         WHERE [${entry.IndexColumnName}] IN (
           SELECT C.[${entry.IndexColumnName}]
-          FROM CHANGETABLE(CHANGES [${entry.TableName}], ${change_version ?? "NULL"}) AS C 
+          FROM CHANGETABLE(CHANGES [${entry.TableName}], @change_version) AS C 
           WHERE SYS_CHANGE_CONTEXT IS NULL
         )
 			;`)
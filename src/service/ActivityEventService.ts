@@ -9,8 +9,19 @@ ActivityEventService.post("/participant/:participant_id/activity_event", async (
   try {
     let participant_id = req.params.participant_id
     const activity_event = req.body
-    participant_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], participant_id)
-    const output = { data: await ActivityEventRepository._insert(participant_id, ae2re(req, [activity_event])) }
+    participant_id = await _verify(
+      req.get("Authorization"),
+      ["self", "sibling", "parent"],
+      participant_id,
+      "activity_event:write",
+      req
+    )
+    const output = {
+      data: await ActivityEventRepository._insert(
+        participant_id,
+        ae2re(req, Array.isArray(activity_event) ? activity_event : [activity_event])
+      ),
+    }
     res.json(output)
   } catch (e) {
     if (e.message === "401.missing-credentials") res.set("WWW-Authenticate", `Basic realm="LAMP" charset="UTF-8"`)
@@ -23,7 +34,13 @@ ActivityEventService.delete("/participant/:participant_id/activity_event", async
     const origin: string = req.query.origin
     const from: number | undefined = Number.parse(req.query.from)
     const to: number | undefined = Number.parse(req.query.to)
-    participant_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], participant_id)
+    participant_id = await _verify(
+      req.get("Authorization"),
+      ["self", "sibling", "parent"],
+      participant_id,
+      "activity_event:admin",
+      req
+    )
     const output = { data: await ActivityEventRepository._delete(participant_id, origin, from, to) }
     res.json(output)
   } catch (e) {
@@ -38,8 +55,16 @@ ActivityEventService.get("/participant/:participant_id/activity_event", async (r
     const from: number | undefined = Number.parse(req.query.from)
     const to: number | undefined = Number.parse(req.query.to)
     const limit = Math.min(Math.max(Number.parse(req.query.limit) ?? 1000, -1000), 1000) // clamped to [-1000, 1000]
-    participant_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], participant_id)
-    let output = { data: re2ae(req, await ActivityEventRepository._select(participant_id, origin, from, to, limit)) }
+    const cursor: string | undefined = req.query.cursor
+    participant_id = await _verify(
+      req.get("Authorization"),
+      ["self", "sibling", "parent"],
+      participant_id,
+      "activity_event:read",
+      req
+    )
+    const page = await ActivityEventRepository._page(participant_id, origin, from, to, limit, cursor)
+    let output = { data: re2ae(req, page.data), cursor: page.cursor }
     output = typeof req.query.transform === "string" ? jsonata(req.query.transform).evaluate(output) : output
     res.json(output)
   } catch (e) {
@@ -54,8 +79,16 @@ ActivityEventService.get("/study/:study_id/activity_event", async (req: Request,
     const from: number | undefined = Number.parse(req.query.from)
     const to: number | undefined = Number.parse(req.query.to)
     const limit = Math.min(Math.max(Number.parse(req.query.limit) ?? 1000, -1000), 1000) // clamped to [-1000, 1000]
-    study_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], study_id)
-    let output = { data: re2ae(req, await ActivityEventRepository._select(study_id, origin, from, to, limit)) }
+    const cursor: string | undefined = req.query.cursor
+    study_id = await _verify(
+      req.get("Authorization"),
+      ["self", "sibling", "parent"],
+      study_id,
+      "activity_event:read",
+      req
+    )
+    const page = await ActivityEventRepository._page(study_id, origin, from, to, limit, cursor)
+    let output = { data: re2ae(req, page.data), cursor: page.cursor }
     output = typeof req.query.transform === "string" ? jsonata(req.query.transform).evaluate(output) : output
     res.json(output)
   } catch (e) {
@@ -70,8 +103,16 @@ ActivityEventService.get("/researcher/:researcher_id/activity_event", async (req
     const from: number | undefined = Number.parse(req.query.from)
     const to: number | undefined = Number.parse(req.query.to)
     const limit = Math.min(Math.max(Number.parse(req.query.limit) ?? 1000, -1000), 1000) // clamped to [-1000, 1000]
-    researcher_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], researcher_id)
-    let output = { data: re2ae(req, await ActivityEventRepository._select(researcher_id, origin, from, to, limit)) }
+    const cursor: string | undefined = req.query.cursor
+    researcher_id = await _verify(
+      req.get("Authorization"),
+      ["self", "sibling", "parent"],
+      researcher_id,
+      "activity_event:read",
+      req
+    )
+    const page = await ActivityEventRepository._page(researcher_id, origin, from, to, limit, cursor)
+    let output = { data: re2ae(req, page.data), cursor: page.cursor }
     output = typeof req.query.transform === "string" ? jsonata(req.query.transform).evaluate(output) : output
     res.json(output)
   } catch (e) {
@@ -102,8 +143,19 @@ ResultEventService.post("/participant/:participant_id/result_event", async (req:
   try {
     let participant_id = req.params.participant_id
     const activity_event = req.body
-    participant_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], participant_id)
-    const output = { data: await ActivityEventRepository._insert(participant_id, ae2re(req, [activity_event])[0]) }
+    participant_id = await _verify(
+      req.get("Authorization"),
+      ["self", "sibling", "parent"],
+      participant_id,
+      "activity_event:write",
+      req
+    )
+    const output = {
+      data: await ActivityEventRepository._insert(
+        participant_id,
+        ae2re(req, Array.isArray(activity_event) ? activity_event : [activity_event])
+      ),
+    }
     res.json(output)
   } catch (e) {
     if (e.message === "401.missing-credentials") res.set("WWW-Authenticate", `Basic realm="LAMP" charset="UTF-8"`)
@@ -116,7 +168,13 @@ ResultEventService.delete("/participant/:participant_id/result_event", async (re
     const origin: string = req.query.origin
     const from: number | undefined = Number.parse(req.query.from)
     const to: number | undefined = Number.parse(req.query.to)
-    participant_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], participant_id)
+    participant_id = await _verify(
+      req.get("Authorization"),
+      ["self", "sibling", "parent"],
+      participant_id,
+      "activity_event:admin",
+      req
+    )
     const output = { data: await ActivityEventRepository._delete(participant_id, origin, from, to) }
     res.json(output)
   } catch (e) {
@@ -131,8 +189,16 @@ ResultEventService.get("/participant/:participant_id/result_event", async (req:
     const from: number | undefined = Number.parse(req.query.from)
     const to: number | undefined = Number.parse(req.query.to)
     const limit = Math.min(Math.max(Number.parse(req.query.limit) ?? 1000, -1000), 1000) // clamped to [-1000, 1000]
-    participant_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], participant_id)
-    let output = { data: re2ae(req, await ActivityEventRepository._select(participant_id, origin, from, to, limit)) }
+    const cursor: string | undefined = req.query.cursor
+    participant_id = await _verify(
+      req.get("Authorization"),
+      ["self", "sibling", "parent"],
+      participant_id,
+      "activity_event:read",
+      req
+    )
+    const page = await ActivityEventRepository._page(participant_id, origin, from, to, limit, cursor)
+    let output = { data: re2ae(req, page.data), cursor: page.cursor }
     output = typeof req.query.transform === "string" ? jsonata(req.query.transform).evaluate(output) : output
     res.json(output)
   } catch (e) {
@@ -147,8 +213,16 @@ ResultEventService.get("/study/:study_id/result_event", async (req: Request, res
     const from: number | undefined = Number.parse(req.query.from)
     const to: number | undefined = Number.parse(req.query.to)
     const limit = Math.min(Math.max(Number.parse(req.query.limit) ?? 1000, -1000), 1000) // clamped to [-1000, 1000]
-    study_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], study_id)
-    let output = { data: re2ae(req, await ActivityEventRepository._select(study_id, origin, from, to, limit)) }
+    const cursor: string | undefined = req.query.cursor
+    study_id = await _verify(
+      req.get("Authorization"),
+      ["self", "sibling", "parent"],
+      study_id,
+      "activity_event:read",
+      req
+    )
+    const page = await ActivityEventRepository._page(study_id, origin, from, to, limit, cursor)
+    let output = { data: re2ae(req, page.data), cursor: page.cursor }
     output = typeof req.query.transform === "string" ? jsonata(req.query.transform).evaluate(output) : output
     res.json(output)
   } catch (e) {
@@ -163,8 +237,16 @@ ResultEventService.get("/researcher/:researcher_id/result_event", async (req: Re
     const from: number | undefined = Number.parse(req.query.from)
     const to: number | undefined = Number.parse(req.query.to)
     const limit = Math.min(Math.max(Number.parse(req.query.limit) ?? 1000, -1000), 1000) // clamped to [-1000, 1000]
-    researcher_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], researcher_id)
-    let output = { data: re2ae(req, await ActivityEventRepository._select(researcher_id, origin, from, to, limit)) }
+    const cursor: string | undefined = req.query.cursor
+    researcher_id = await _verify(
+      req.get("Authorization"),
+      ["self", "sibling", "parent"],
+      researcher_id,
+      "activity_event:read",
+      req
+    )
+    const page = await ActivityEventRepository._page(researcher_id, origin, from, to, limit, cursor)
+    let output = { data: re2ae(req, page.data), cursor: page.cursor }
     output = typeof req.query.transform === "string" ? jsonata(req.query.transform).evaluate(output) : output
     res.json(output)
   } catch (e) {
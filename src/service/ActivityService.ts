@@ -9,7 +9,7 @@ ActivityService.post("/study/:study_id/activity", async (req: Request, res: Resp
   try {
     let study_id = req.params.study_id
     const activity = req.body
-    study_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], study_id)
+    study_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], study_id, "activity:write", req)
     const output = { data: await ActivityRepository._insert(study_id, activity) }
     res.json(output)
   } catch (e) {
@@ -21,7 +21,13 @@ ActivityService.put("/activity/:activity_id", async (req: Request, res: Response
   try {
     let activity_id = req.params.activity_id
     const activity = req.body
-    activity_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], activity_id)
+    activity_id = await _verify(
+      req.get("Authorization"),
+      ["self", "sibling", "parent"],
+      activity_id,
+      "activity:write",
+      req
+    )
     const output = { data: await ActivityRepository._update(activity_id, activity) }
     res.json(output)
   } catch (e) {
@@ -32,7 +38,13 @@ ActivityService.put("/activity/:activity_id", async (req: Request, res: Response
 ActivityService.delete("/activity/:activity_id", async (req: Request, res: Response) => {
   try {
     let activity_id = req.params.activity_id
-    activity_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], activity_id)
+    activity_id = await _verify(
+      req.get("Authorization"),
+      ["self", "sibling", "parent"],
+      activity_id,
+      "activity:admin",
+      req
+    )
     const output = { data: await ActivityRepository._delete(activity_id) }
     res.json(output)
   } catch (e) {
@@ -43,7 +55,13 @@ ActivityService.delete("/activity/:activity_id", async (req: Request, res: Respo
 ActivityService.get("/activity/:activity_id", async (req: Request, res: Response) => {
   try {
     let activity_id = req.params.activity_id
-    activity_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], activity_id)
+    activity_id = await _verify(
+      req.get("Authorization"),
+      ["self", "sibling", "parent"],
+      activity_id,
+      "activity:read",
+      req
+    )
     let output = { data: await ActivityRepository._select(activity_id) }
     output = typeof req.query.transform === "string" ? jsonata(req.query.transform).evaluate(output) : output
     res.json(output)
@@ -55,7 +73,13 @@ ActivityService.get("/activity/:activity_id", async (req: Request, res: Response
 ActivityService.get("/participant/:participant_id/activity", async (req: Request, res: Response) => {
   try {
     let participant_id = req.params.participant_id
-    participant_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], participant_id)
+    participant_id = await _verify(
+      req.get("Authorization"),
+      ["self", "sibling", "parent"],
+      participant_id,
+      "activity:read",
+      req
+    )
     let output = { data: await ActivityRepository._select(participant_id) }
     output = typeof req.query.transform === "string" ? jsonata(req.query.transform).evaluate(output) : output
     res.json(output)
@@ -67,7 +91,7 @@ ActivityService.get("/participant/:participant_id/activity", async (req: Request
 ActivityService.get("/study/:study_id/activity", async (req: Request, res: Response) => {
   try {
     let study_id = req.params.study_id
-    study_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], study_id)
+    study_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], study_id, "activity:read", req)
     let output = { data: await ActivityRepository._select(study_id) }
     output = typeof req.query.transform === "string" ? jsonata(req.query.transform).evaluate(output) : output
     res.json(output)
@@ -79,7 +103,13 @@ ActivityService.get("/study/:study_id/activity", async (req: Request, res: Respo
 ActivityService.get("/researcher/:researcher_id/activity", async (req: Request, res: Response) => {
   try {
     let researcher_id = req.params.researcher_id
-    researcher_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], researcher_id)
+    researcher_id = await _verify(
+      req.get("Authorization"),
+      ["self", "sibling", "parent"],
+      researcher_id,
+      "activity:read",
+      req
+    )
     let output = { data: await ActivityRepository._select(researcher_id) }
     output = typeof req.query.transform === "string" ? jsonata(req.query.transform).evaluate(output) : output
     res.json(output)
@@ -90,7 +120,7 @@ ActivityService.get("/researcher/:researcher_id/activity", async (req: Request,
 })
 ActivityService.get("/activity", async (req: Request, res: Response) => {
   try {
-    const _ = await _verify(req.get("Authorization"), ["parent"])
+    const _ = await _verify(req.get("Authorization"), ["parent"], undefined, "activity:read", req)
     let output = { data: await ActivityRepository._select() }
     output = typeof req.query.transform === "string" ? jsonata(req.query.transform).evaluate(output) : output
     res.json(output)
@@ -8,7 +8,7 @@ export const ActivitySpecService = Router()
 ActivitySpecService.post("/activity_spec", async (req: Request, res: Response) => {
   try {
     const activity_spec = req.body
-    const _ = await _verify(req.get("Authorization"), [])
+    const _ = await _verify(req.get("Authorization"), [], undefined, "activity_spec:write", req)
     const output = { data: await ActivitySpecRepository._insert(activity_spec) }
     res.json(output)
   } catch (e) {
@@ -20,7 +20,7 @@ ActivitySpecService.put("/activity_spec/:activity_spec_name", async (req: Reques
   try {
     const activity_spec_name = req.params.activity_spec_name
     const activity_spec = req.body
-    const _ = await _verify(req.get("Authorization"), [])
+    const _ = await _verify(req.get("Authorization"), [], undefined, "activity_spec:write", req)
     const output = { data: await ActivitySpecRepository._update(activity_spec_name, activity_spec) }
     res.json(output)
   } catch (e) {
@@ -31,7 +31,7 @@ ActivitySpecService.put("/activity_spec/:activity_spec_name", async (req: Reques
 ActivitySpecService.delete("/activity_spec/:activity_spec_name", async (req: Request, res: Response) => {
   try {
     const activity_spec_name = req.params.activity_spec_name
-    const _ = await _verify(req.get("Authorization"), [])
+    const _ = await _verify(req.get("Authorization"), [], undefined, "activity_spec:admin", req)
     const output = { data: await ActivitySpecRepository._delete(activity_spec_name) }
     res.json(output)
   } catch (e) {
@@ -42,7 +42,13 @@ ActivitySpecService.delete("/activity_spec/:activity_spec_name", async (req: Req
 ActivitySpecService.get("/activity_spec/:activity_spec_name", async (req: Request, res: Response) => {
   try {
     const activity_spec_name = req.params.activity_spec_name
-    const _ = await _verify(req.get("Authorization"), ["self", "sibling", "parent"])
+    const _ = await _verify(
+      req.get("Authorization"),
+      ["self", "sibling", "parent"],
+      undefined,
+      "activity_spec:read",
+      req
+    )
     let output = { data: await ActivitySpecRepository._select(activity_spec_name) }
     output = typeof req.query.transform === "string" ? jsonata(req.query.transform).evaluate(output) : output
     res.json(output)
@@ -53,7 +59,13 @@ ActivitySpecService.get("/activity_spec/:activity_spec_name", async (req: Reques
 })
 ActivitySpecService.get("/activity_spec", async (req: Request, res: Response) => {
   try {
-    const _ = await _verify(req.get("Authorization"), ["self", "sibling", "parent"])
+    const _ = await _verify(
+      req.get("Authorization"),
+      ["self", "sibling", "parent"],
+      undefined,
+      "activity_spec:read",
+      req
+    )
     let output = { data: await ActivitySpecRepository._select() }
     output = typeof req.query.transform === "string" ? jsonata(req.query.transform).evaluate(output) : output
     res.json(output)
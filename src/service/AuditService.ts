@@ -0,0 +1,42 @@
+import { Request, Response, Router, NextFunction } from "express"
+import { AccessCitation } from "../model/Document"
+import { AuditRepository } from "../repository/AuditRepository"
+import { _verify } from "./Security"
+import jsonata from "jsonata"
+
+export const AuditService = Router()
+
+// Collect the access citations `_verify` makes while handling each request, and append them to the
+// audit log along with the outcome once the response has been sent.
+AuditService.use((req: Request, res: Response, next: NextFunction) => {
+  res.locals.audit = [] as AccessCitation[]
+  res.on("finish", () => {
+    const citations: AccessCitation[] = res.locals.audit
+    if (citations.length === 0) return
+    AuditRepository._insert(
+      citations.map((x) => ({
+        ...x,
+        route: req.originalUrl.split("?")[0],
+        method: req.method,
+        status: res.statusCode,
+      }))
+    ).catch((e) => console.error(e))
+  })
+  next()
+})
+AuditService.get("/researcher/:researcher_id/audit", async (req: Request, res: Response) => {
+  try {
+    let researcher_id = req.params.researcher_id
+    const from: number | undefined = Number.parse(req.query.from)
+    const to: number | undefined = Number.parse(req.query.to)
+    const by: string | undefined = req.query.by
+    const limit: number | undefined = Number.parse(req.query.limit)
+    researcher_id = await _verify(req.get("Authorization"), ["self", "parent"], researcher_id, "researcher:read", req)
+    let output = { data: await AuditRepository._select(researcher_id, from, to, by, limit) }
+    output = typeof req.query.transform === "string" ? jsonata(req.query.transform).evaluate(output) : output
+    res.json(output)
+  } catch (e) {
+    if (e.message === "401.missing-credentials") res.set("WWW-Authenticate", `Basic realm="LAMP" charset="UTF-8"`)
+    res.status(parseInt(e.message.split(".")[0]) || 500).json({ error: e.message })
+  }
+})
@@ -8,7 +8,7 @@ export const CredentialService = Router()
 CredentialService.get("/type/:type_id/credential", async (req: Request, res: Response) => {
   try {
     let type_id = req.params.type_id
-    type_id = await _verify(req.get("Authorization"), ["self", "parent"], type_id)
+    type_id = await _verify(req.get("Authorization"), ["self", "parent"], type_id, "credential:read", req)
     let output = { data: await CredentialRepository._select(type_id) }
     output = typeof req.query.transform === "string" ? jsonata(req.query.transform).evaluate(output) : output
     res.json(output)
@@ -21,7 +21,7 @@ CredentialService.post("/type/:type_id/credential", async (req: Request, res: Re
   try {
     let type_id = req.params.type_id
     const credential = req.body
-    type_id = await _verify(req.get("Authorization"), ["self", "parent"], type_id)
+    type_id = await _verify(req.get("Authorization"), ["self", "parent"], type_id, "credential:admin", req)
     const output = { data: await CredentialRepository._insert(type_id, credential) }
     res.json(output)
   } catch (e) {
@@ -34,7 +34,7 @@ CredentialService.put("/type/:type_id/credential/:access_key", async (req: Reque
     let type_id = req.params.type_id
     const access_key = req.params.access_key
     const credential = req.body
-    type_id = await _verify(req.get("Authorization"), ["self", "parent"], type_id)
+    type_id = await _verify(req.get("Authorization"), ["self", "parent"], type_id, "credential:admin", req)
     const output = { data: await CredentialRepository._update(type_id, access_key, credential) }
     res.json(output)
   } catch (e) {
@@ -46,7 +46,7 @@ CredentialService.delete("/type/:type_id/credential/:access_key", async (req: Re
   try {
     let type_id = req.params.type_id
     const access_key = req.params.access_key
-    type_id = await _verify(req.get("Authorization"), ["self", "parent"], type_id)
+    type_id = await _verify(req.get("Authorization"), ["self", "parent"], type_id, "credential:admin", req)
     const output = { data: await CredentialRepository._delete(type_id, access_key) }
     res.json(output)
   } catch (e) {
@@ -54,3 +54,16 @@ CredentialService.delete("/type/:type_id/credential/:access_key", async (req: Re
     res.status(parseInt(e.message.split(".")[0]) || 500).json({ error: e.message })
   }
 })
+CredentialService.post("/type/:type_id/credential/:access_key/rotate", async (req: Request, res: Response) => {
+  try {
+    let type_id = req.params.type_id
+    const access_key = req.params.access_key
+    const grace_period = req.body?.grace_period
+    type_id = await _verify(req.get("Authorization"), ["self", "parent"], type_id, "credential:admin", req)
+    const output = { data: await CredentialRepository._rotate(type_id, access_key, grace_period) }
+    res.json(output)
+  } catch (e) {
+    if (e.message === "401.missing-credentials") res.set("WWW-Authenticate", `Basic realm="LAMP" charset="UTF-8"`)
+    res.status(parseInt(e.message.split(".")[0]) || 500).json({ error: e.message })
+  }
+})
@@ -0,0 +1,37 @@
+import { Request, Response, Router } from "express"
+import { LockoutRepository } from "../repository/LockoutRepository"
+import { _verify } from "./Security"
+
+export const LockoutService = Router()
+LockoutService.get("/lockout", async (req: Request, res: Response) => {
+  try {
+    await _verify(req.get("Authorization"), [], undefined, undefined, req)
+    const output = { data: await LockoutRepository._select() }
+    res.json(output)
+  } catch (e) {
+    if (e.message === "401.missing-credentials") res.set("WWW-Authenticate", `Basic realm="LAMP" charset="UTF-8"`)
+    res.status(parseInt(e.message.split(".")[0]) || 500).json({ error: e.message })
+  }
+})
+LockoutService.delete("/lockout", async (req: Request, res: Response) => {
+  try {
+    await _verify(req.get("Authorization"), [], undefined, undefined, req)
+    const output = { data: await LockoutRepository._delete() }
+    res.json(output)
+  } catch (e) {
+    if (e.message === "401.missing-credentials") res.set("WWW-Authenticate", `Basic realm="LAMP" charset="UTF-8"`)
+    res.status(parseInt(e.message.split(".")[0]) || 500).json({ error: e.message })
+  }
+})
+LockoutService.delete("/lockout/:lockout_key", async (req: Request, res: Response) => {
+  try {
+    const lockout_key = req.params.lockout_key
+    await _verify(req.get("Authorization"), [], undefined, undefined, req)
+    if ((await LockoutRepository._delete(lockout_key)) === 0) throw new Error("404.object-not-found")
+    const output = { data: {} }
+    res.json(output)
+  } catch (e) {
+    if (e.message === "401.missing-credentials") res.set("WWW-Authenticate", `Basic realm="LAMP" charset="UTF-8"`)
+    res.status(parseInt(e.message.split(".")[0]) || 500).json({ error: e.message })
+  }
+})
@@ -9,7 +9,13 @@ ParticipantService.post("/study/:study_id/participant", async (req: Request, res
   try {
     let study_id = req.params.study_id
     const participant = req.body
-    study_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], study_id)
+    study_id = await _verify(
+      req.get("Authorization"),
+      ["self", "sibling", "parent"],
+      study_id,
+      "participant:write",
+      req
+    )
     const output = { data: await ParticipantRepository._insert(study_id, participant) }
     res.json(output)
   } catch (e) {
@@ -21,7 +27,13 @@ ParticipantService.put("/participant/:participant_id", async (req: Request, res:
   try {
     let participant_id = req.params.participant_id
     const participant = req.body
-    participant_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], participant_id)
+    participant_id = await _verify(
+      req.get("Authorization"),
+      ["self", "sibling", "parent"],
+      participant_id,
+      "participant:write",
+      req
+    )
     const output = { data: await ParticipantRepository._update(participant_id, participant) }
     res.json(output)
   } catch (e) {
@@ -32,7 +44,13 @@ ParticipantService.put("/participant/:participant_id", async (req: Request, res:
 ParticipantService.delete("/participant/:participant_id", async (req: Request, res: Response) => {
   try {
     let participant_id = req.params.participant_id
-    participant_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], participant_id)
+    participant_id = await _verify(
+      req.get("Authorization"),
+      ["self", "sibling", "parent"],
+      participant_id,
+      "participant:admin",
+      req
+    )
     const output = { data: await ParticipantRepository._delete(participant_id) }
     res.json(output)
   } catch (e) {
@@ -43,7 +61,13 @@ ParticipantService.delete("/participant/:participant_id", async (req: Request, r
 ParticipantService.get("/participant/:participant_id", async (req: Request, res: Response) => {
   try {
     let participant_id = req.params.participant_id
-    participant_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], participant_id)
+    participant_id = await _verify(
+      req.get("Authorization"),
+      ["self", "sibling", "parent"],
+      participant_id,
+      "participant:read",
+      req
+    )
     let output = { data: await ParticipantRepository._select(participant_id) }
     output = typeof req.query.transform === "string" ? jsonata(req.query.transform).evaluate(output) : output
     res.json(output)
@@ -55,7 +79,7 @@ ParticipantService.get("/participant/:participant_id", async (req: Request, res:
 ParticipantService.get("/study/:study_id/participant", async (req: Request, res: Response) => {
   try {
     let study_id = req.params.study_id
-    study_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], study_id)
+    study_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], study_id, "participant:read", req)
     let output = { data: await ParticipantRepository._select(study_id) }
     output = typeof req.query.transform === "string" ? jsonata(req.query.transform).evaluate(output) : output
     res.json(output)
@@ -67,7 +91,13 @@ ParticipantService.get("/study/:study_id/participant", async (req: Request, res:
 ParticipantService.get("/researcher/:researcher_id/participant", async (req: Request, res: Response) => {
   try {
     let researcher_id = req.params.researcher_id
-    researcher_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], researcher_id)
+    researcher_id = await _verify(
+      req.get("Authorization"),
+      ["self", "sibling", "parent"],
+      researcher_id,
+      "participant:read",
+      req
+    )
     let output = { data: await ParticipantRepository._select(researcher_id) }
     output = typeof req.query.transform === "string" ? jsonata(req.query.transform).evaluate(output) : output
     res.json(output)
@@ -78,7 +108,7 @@ ParticipantService.get("/researcher/:researcher_id/participant", async (req: Req
 })
 ParticipantService.get("/participant", async (req: Request, res: Response) => {
   try {
-    const _ = await _verify(req.get("Authorization"), [])
+    const _ = await _verify(req.get("Authorization"), [], undefined, "participant:read", req)
     let output = { data: await ParticipantRepository._select() }
     output = typeof req.query.transform === "string" ? jsonata(req.query.transform).evaluate(output) : output
     res.json(output)
@@ -0,0 +1,92 @@
+import { Request } from "express"
+import { TypeRepository } from "../repository/TypeRepository"
+import { StudyMemberRepository, StudyMember_roles } from "../repository/StudyMemberRepository"
+
+/**
+ * The ways an actor may be related to the target of an action:
+ * - `self`: the target is the actor.
+ * - `sibling`: the actor belongs to the same immediate parent as the target. This only ever allows reading,
+ *   so that nothing may change or delete what it merely shares a parent with.
+ * - `parent`: the target belongs to the actor.
+ */
+export type Relation = "self" | "sibling" | "parent"
+
+/**
+ * How to decide whether each `Relation` holds between an actor and a target.
+ */
+const _relations: { [relation in Relation]: (actor: string, target: string) => Promise<boolean> } = {
+  self: async (actor, target) => actor === target,
+  sibling: async (actor, target) => {
+    const type = _parent_types(target)[0]
+    if (type === undefined || !_parent_types(actor).includes(type)) return false
+    const parent_id = await TypeRepository._parent_id(target, type)
+    return parent_id !== undefined && parent_id === (await TypeRepository._parent_id(actor, type))
+  },
+  parent: async (actor, target) => {
+    const type = TypeRepository._self_type(actor)
+    if (!_parent_types(target).includes(type)) return false
+    return actor === (await TypeRepository._parent_id(target, type))
+  },
+}
+
+/**
+ * Decide whether an actor may take an action on a target. The action is the `<resource>:<read|write|admin>`
+ * scope of the route, and a route accepts actors holding any of the given relations to its target. Failing
+ * those, a `Researcher` may still act on the data of a `Study` through their role on its team.
+ * Root may do anything, and only root may act without a target.
+ */
+export async function _allows(
+  actor: string,
+  relations: Relation[],
+  target?: string,
+  action?: string,
+  req?: Request
+): Promise<boolean> {
+  if (actor === "root") return true
+  if (!target) return false
+  for (const relation of relations) {
+    if (relation === "sibling" && action?.split(":")[1] !== "read") continue
+    if (await _relations[relation](actor, target)) return true
+  }
+  return await _team_access(actor, target, action, req)
+}
+
+/**
+ * Whether the scope is granted, where `admin` access to a resource implies `write`, and `write` implies `read`.
+ */
+export function _in_scope(scopes: string[], scope: string): boolean {
+  const levels = ["read", "write", "admin"]
+  const [resource, level] = scope.split(":")
+  return scopes.some((x) => x.split(":")[0] === resource && levels.indexOf(x.split(":")[1]) >= levels.indexOf(level))
+}
+
+/**
+ * The types an object may belong to, nearest first, or none if it isn't of a known type.
+ */
+const _parent_types = (id: string): string[] => TypeRepository._parent_type(id) ?? []
+
+/**
+ * The resources a team role applies to: the data within a `Study`. Anything else, such as the credentials,
+ * lockouts, or audit log of its owner, remains theirs alone.
+ */
+const _team_resources = ["study", "participant", "activity", "activity_event", "sensor", "sensor_event"]
+
+/**
+ * Whether a `Researcher` may access an object through their role on the team of the `Study` it belongs to.
+ * The fields their role may not see are noted on the response, to be stripped from whatever it sends back.
+ */
+const _team_access = async (actor: string, target: string, action?: string, req?: Request): Promise<boolean> => {
+  if (action === undefined || !_team_resources.includes(action.split(":")[0])) return false
+  if (TypeRepository._self_type(actor) !== "Researcher") return false
+  let study_id: string | undefined
+  try {
+    study_id = TypeRepository._self_type(target) === "Study" ? target : await TypeRepository._parent_id(target, "Study")
+  } catch (e) {
+    return false
+  }
+  const role = study_id !== undefined ? await StudyMemberRepository._role(study_id, actor) : undefined
+  if (role === undefined || !_in_scope([`${action.split(":")[0]}:${StudyMember_roles[role].access}`], action))
+    return false
+  if (!!req?.res) req.res.locals.redact = [...(req.res.locals.redact ?? []), ...StudyMember_roles[role].redact]
+  return true
+}
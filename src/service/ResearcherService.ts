@@ -8,7 +8,7 @@ export const ResearcherService = Router()
 ResearcherService.post("/researcher", async (req: Request, res: Response) => {
   try {
     const researcher = req.body
-    const _ = await _verify(req.get("Authorization"), [])
+    const _ = await _verify(req.get("Authorization"), [], undefined, "researcher:write", req)
     const output = { data: await ResearcherRepository._insert(researcher) }
     res.json(output)
   } catch (e) {
@@ -20,7 +20,13 @@ ResearcherService.put("/researcher/:researcher_id", async (req: Request, res: Re
   try {
     let researcher_id = req.params.researcher_id
     const researcher = req.body
-    researcher_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], researcher_id)
+    researcher_id = await _verify(
+      req.get("Authorization"),
+      ["self", "sibling", "parent"],
+      researcher_id,
+      "researcher:write",
+      req
+    )
     const output = { data: await ResearcherRepository._update(researcher_id, researcher) }
     res.json(output)
   } catch (e) {
@@ -31,7 +37,13 @@ ResearcherService.put("/researcher/:researcher_id", async (req: Request, res: Re
 ResearcherService.delete("/researcher/:researcher_id", async (req: Request, res: Response) => {
   try {
     let researcher_id = req.params.researcher_id
-    researcher_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], researcher_id)
+    researcher_id = await _verify(
+      req.get("Authorization"),
+      ["self", "sibling", "parent"],
+      researcher_id,
+      "researcher:admin",
+      req
+    )
     const output = { data: await ResearcherRepository._delete(researcher_id) }
     res.json(output)
   } catch (e) {
@@ -42,7 +54,13 @@ ResearcherService.delete("/researcher/:researcher_id", async (req: Request, res:
 ResearcherService.get("/researcher/:researcher_id", async (req: Request, res: Response) => {
   try {
     let researcher_id = req.params.researcher_id
-    researcher_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], researcher_id)
+    researcher_id = await _verify(
+      req.get("Authorization"),
+      ["self", "sibling", "parent"],
+      researcher_id,
+      "researcher:read",
+      req
+    )
     let output = { data: await ResearcherRepository._select(researcher_id) }
     output = typeof req.query.transform === "string" ? jsonata(req.query.transform).evaluate(output) : output
     res.json(output)
@@ -53,7 +71,7 @@ ResearcherService.get("/researcher/:researcher_id", async (req: Request, res: Re
 })
 ResearcherService.get("/researcher", async (req: Request, res: Response) => {
   try {
-    const _ = await _verify(req.get("Authorization"), [])
+    const _ = await _verify(req.get("Authorization"), [], undefined, "researcher:read", req)
     let output = { data: await ResearcherRepository._select() }
     output = typeof req.query.transform === "string" ? jsonata(req.query.transform).evaluate(output) : output
     res.json(output)
@@ -1,8 +1,14 @@
 import crypto from "crypto"
-import { Database, SQL, Encrypt, Decrypt } from "../app"
+import { Request } from "express"
+import sql from "mssql"
+import { Database, SQL, Ciphertexts, Hash, Verify } from "../app"
+import { AccessCitation } from "../model/Document"
 import { ResearcherRepository } from "../repository/ResearcherRepository"
-import { TypeRepository } from "../repository/TypeRepository"
-import { CredentialRepository } from "../repository/CredentialRepository"
+import { TypeRepository, Parameter_list } from "../repository/TypeRepository"
+import { CredentialRepository, Password_rehash } from "../repository/CredentialRepository"
+import { TokenRepository } from "../repository/TokenRepository"
+import { LockoutRepository } from "../repository/LockoutRepository"
+import { Relation, _allows, _in_scope } from "./Policy"
 
 export function SecurityContext(): Promise<{ type: string; id: string }> {
   return Promise.resolve({ type: "", id: "" })
@@ -14,11 +20,40 @@ export function ActionContext(): Promise<{ type: string; id: string }> {
 
 let rootPassword: string
 
-export async function _verify(
-  authHeader: string | undefined,
-  type: Array<"self" | "sibling" | "parent"> /* 'root' = [] */,
-  auth_value?: string
-): Promise<string> {
+/**
+ * Check an access and secret key pair, returning the ID of the identity it authenticates, or `root`,
+ * along with the scopes the credential is limited to, if any. Failed attempts are counted against the
+ * access key and the IP address of the request, and further attempts are rejected after too many, with
+ * the response told when to try again. Root is only ever held to its own access key, so that it can still
+ * sign in to clear a lockout of the address it shares with everyone else.
+ */
+export async function _authenticate(
+  access_key: string,
+  secret_key: string,
+  req?: Request
+): Promise<{ id: string; scopes?: string[] }> {
+  const ip = ["root", "admin"].includes(access_key) ? undefined : req?.ip
+  let failed: boolean
+  try {
+    failed = await LockoutRepository._check(access_key, ip)
+  } catch (e) {
+    if (e.message.startsWith("429.")) req?.res?.set("Retry-After", String(e.retry_after))
+    throw e
+  }
+  try {
+    const identity = await _credentials(access_key, secret_key)
+    if (failed) await LockoutRepository._success(access_key)
+    return identity
+  } catch (e) {
+    if (e.message.startsWith("403.")) await LockoutRepository._failure(access_key, ip)
+    throw e
+  }
+}
+
+/**
+ * Check an access and secret key pair as in `_authenticate`, without counting failures.
+ */
+async function _credentials(access_key: string, secret_key: string): Promise<{ id: string; scopes?: string[] }> {
   // Lazy evaluation of root password if we haven't already loaded it.
   if (rootPassword === undefined) {
     try {
@@ -28,112 +63,114 @@ export async function _verify(
       console.dir(`Because no master configuration could be located, a temporary root password \
 was generated for this session.`)
       console.table({ "Root Password": random })
-      rootPassword = Encrypt(random, "AES256") as string
+      rootPassword = await Hash(random)
     }
   }
 
-  // Get the authorization components from the header and tokenize them.
-  // TODO: ignoring the other authorization location stuff for now...
-  let authStr = (authHeader ?? "").replace("Basic", "").trim()
-  const cosignData = authStr.startsWith("LAMP") ? JSON.parse(Decrypt(authStr.slice(4)) || "") : undefined
-  if (cosignData !== undefined)
-    // FIXME !?
-    authStr = Object.values(cosignData.cosigner).join(":")
-  else authStr = authStr.indexOf(":") >= 0 ? authStr : Buffer.from(authStr, "base64").toString()
-  const auth = authStr.split(":", 2)
-
-  // If no authorization is provided, ask for something.
-  if (auth.length !== 2 || !auth[1]) {
-    throw new Error("401.missing-credentials")
-  }
-
-  // Handle basic no credentials and root auth required cases.
-  let sub_auth_value = undefined
-  if (!auth_value && !["root", "admin"].includes(auth[0])) {
-    throw new Error("403.security-context-requires-root-scope")
-  } else if (["root", "admin"].includes(auth[0]) && auth[1] !== Decrypt(rootPassword, "AES256")) {
-    throw new Error("403.invalid-credentials")
-  } else if (!(["root", "admin"].includes(auth[0]) && auth[1] === Decrypt(rootPassword, "AES256"))) {
-    let from = auth[0],
-      to = auth_value
-
-    if (TypeRepository._self_type(from) === "Participant") {
-      // Authenticate as a Participant.
-      const result = (
-        await SQL!.request().query(`
+  if (["root", "admin"].includes(access_key)) {
+    if (!(await Verify(secret_key, rootPassword))) throw new Error("403.invalid-credentials")
+    return { id: "root" }
+  } else if (TypeRepository._self_type(access_key) === "Participant") {
+    // Authenticate as a Participant.
+    const req = SQL!.request()
+    const result = (
+      await req.query(`
 	            SELECT Password 
 	            FROM Users
-	            WHERE IsDeleted = 0 AND StudyId = '${Encrypt(from)}';
+	            WHERE IsDeleted = 0 AND StudyId IN (${Parameter_list(req, "study_id", Ciphertexts(access_key))});
 			`)
-      ).recordset
-      if (result.length === 0 || Decrypt(result[0]["Password"], "AES256") !== auth[1])
-        throw new Error("403.invalid-credentials") /* authorization-failed */
-    } else if (TypeRepository._self_type(from) === "Researcher") {
-      // Authenticate as a Researcher.
-      const result = (
-        await SQL!.request().query(`
+    ).recordset
+    if (result.length === 0 || !(await Verify(secret_key, result[0]["Password"])))
+      throw new Error("403.invalid-credentials") /* authorization-failed */
+    await Password_rehash("Users", result[0]["Password"], secret_key)
+    return { id: access_key }
+  } else if (TypeRepository._self_type(access_key) === "Researcher") {
+    // Authenticate as a Researcher.
+    const req = SQL!.request()
+    req.input("admin_id", sql.BigInt, ResearcherRepository._unpack_id(access_key).admin_id)
+    const result = (
+      await req.query(`
 	            SELECT AdminID, Password 
 	            FROM Admin
-	            WHERE IsDeleted = 0 AND AdminID = '${ResearcherRepository._unpack_id(from).admin_id}';
+	            WHERE IsDeleted = 0 AND AdminID = @admin_id;
 			`)
-      ).recordset
-      if (result.length === 0 || Decrypt(result[0]["Password"], "AES256") !== auth[1])
-        throw new Error("403.invalid-credentials")
-    } else {
-      auth[0] = from = await CredentialRepository._find(auth[0], auth[1] || "*" /* FIXME: force password matching */)
-    }
+    ).recordset
+    if (result.length === 0 || !(await Verify(secret_key, result[0]["Password"])))
+      throw new Error("403.invalid-credentials")
+    await Password_rehash("Admin", result[0]["Password"], secret_key)
+    return { id: access_key }
+  } else {
+    const { origin, scopes } = await CredentialRepository._lookup(
+      access_key,
+      secret_key || "*" /* FIXME: force password matching */
+    )
+    return { id: origin, scopes }
+  }
+}
 
-    // Patch in the special-cased "me" to the actual authenticated credential.
-    if (to === "me") sub_auth_value = to = auth[0]
-    // FIXME: R vs P?
+export async function _verify(
+  authHeader: string | undefined,
+  type: Relation[] /* 'root' = [] */,
+  auth_value?: string,
+  scope?: string /* '<resource>:<read|write|admin>' */,
+  req?: Request
+): Promise<string> {
+  // Cite the access in the audit log of the request, which is written once the response has been sent.
+  const citation: AccessCitation = { in: auth_value ?? "", at: req?.ip ?? "", on: Date.now(), by: "" }
+  req?.res?.locals.audit?.push(citation)
 
-    // Handle whether we require the parameter to be [[[self], a sibling], or a parent].
-    if (
-      /* Check if `to` and `from` are the same object. */
-      type.includes("self") &&
-      from !== to &&
-      /* FIXME: Check if the immediate parent type of `to` is found in `from`'s inheritance tree. */
-      type.includes("sibling") &&
-      TypeRepository._parent_type(from || "").indexOf(TypeRepository._parent_type(to || "")[0]) < 0 &&
-      /* Check if `from` is actually the parent ID of `to` matching the same type as `from`. */
-      type.includes("parent") &&
-      from !== (await TypeRepository._parent_id(to || "", TypeRepository._self_type(from || "")))
-    ) {
-      /* We've given the authorization enough chances... */
-      throw new Error("403.security-context-out-of-scope")
+  // Get the authorization components from the header and tokenize them.
+  // TODO: ignoring the other authorization location stuff for now...
+  let authStr = (authHeader ?? "").replace("Basic", "").trim()
+  let cosign: { to: string; jti: string } | undefined = undefined
+  let identity: { id: string; scopes?: string[] }
+  if (authStr.startsWith("Bearer")) {
+    // A bearer token was issued to the identity after it authenticated, so don't authenticate it again.
+    const claims = await TokenRepository._unpack(authStr.slice(6).trim(), "access")
+    identity = { id: claims.sub, scopes: claims.scopes }
+  } else if (authStr.startsWith("LAMP")) {
+    // A cosign token was signed by us for an automation acting on behalf of the identity, limited to the object
+    // the automation was run for. Each use is cited with the token, so the automation's requests can be traced.
+    const claims = await TokenRepository._unpack(authStr.slice(4), "cosign")
+    identity = { id: claims.sub }
+    cosign = { to: <string>claims.aud, jti: claims.jti }
+    citation.cosign = claims.jti
+  } else {
+    authStr = authStr.indexOf(":") >= 0 ? authStr : Buffer.from(authStr, "base64").toString()
+    const auth = authStr.split(":", 2)
+
+    // If no authorization is provided, ask for something.
+    if (auth.length !== 2 || !auth[1]) {
+      throw new Error("401.missing-credentials")
     }
+    identity = await _authenticate(auth[0], auth[1], req)
   }
+  const from = identity.id
+  citation.by = from
+
+  // A scoped credential may only be used on routes that declare a scope it was granted.
+  if (identity.scopes !== undefined && (scope === undefined || !_in_scope(identity.scopes, scope)))
+    throw new Error("403.credential-out-of-scope")
 
-  // FIXME: clean this up...
-  // Handle the above normal login cases if we're cosigned by root.
-  if (!!cosignData) {
-    const from = cosignData.identity.from
+  // Handle basic no credentials and root auth required cases. A cosign token never acts as root.
+  let sub_auth_value = undefined
+  if (!auth_value && (from !== "root" || cosign !== undefined)) {
+    throw new Error("403.security-context-requires-root-scope")
+  } else if (from !== "root" || cosign !== undefined) {
     let to = auth_value
 
-    // Patch in the special-cased "me" to the actual authenticated credential.
-    if (auth_value /* to */ === "me") sub_auth_value = to = cosignData.identity.to
-    // FIXME: R vs P?
+    // Patch in the special-cased "me" to the actual authenticated credential, or the object cosigned for.
+    if (to === "me") sub_auth_value = to = cosign?.to ?? from
 
-    // Handle whether we require the parameter to be [[[self], a sibling], or a parent].
-    if (
-      /* Check if `to` and `from` are the same object. */
-      type.includes("self") &&
-      from !== to &&
-      /* FIXME: Check if the immediate parent type of `to` is found in `from`'s inheritance tree. */
-      type.includes("sibling") &&
-      TypeRepository._parent_type(from || "").indexOf(TypeRepository._parent_type(to || "")[0]) < 0 &&
-      /* Check if `from` is actually the parent ID of `to` matching the same type as `from`. */
-      type.includes("parent") &&
-      from !== (await TypeRepository._parent_id(to || "", TypeRepository._self_type(from || "")))
-    ) {
-      /* We've given the authorization enough chances... */
-      throw new Error("403.security-context-out-of-scope")
-    }
+    // Decide whether the identity may act on the target, and whether the target is within a cosign token's object.
+    if (cosign !== undefined && !(await _allows(cosign.to, ["self", "parent"], to)))
+      throw new Error("403.cosign-token-out-of-scope")
+    if (!(await _allows(from, type, to, scope, req))) throw new Error("403.security-context-out-of-scope")
   }
 
   // There shouldn't be any "me" anymore -- unless we're root.
-  if (cosignData === undefined && sub_auth_value === undefined && auth_value /* to */ === "me")
-    throw new Error("400.context-substitution-failed")
+  if (sub_auth_value === undefined && auth_value /* to */ === "me") throw new Error("400.context-substitution-failed")
 
-  return sub_auth_value || auth_value
+  citation.in = sub_auth_value || auth_value || ""
+  return <string>(sub_auth_value || auth_value)
 }
@@ -1,7 +1,8 @@
 import { Request, Response, Router } from "express"
-import { SensorEvent } from "../model/SensorEvent"
+import { SensorEvent, SensorName } from "../model/SensorEvent"
 import { SensorEventRepository } from "../repository/SensorEventRepository"
 import { SecurityContext, ActionContext, _verify } from "./Security"
+import { _redact } from "./StudyMemberService"
 import jsonata from "jsonata"
 
 export const SensorEventService = Router()
@@ -9,7 +10,13 @@ SensorEventService.post("/participant/:participant_id/sensor_event", async (req:
   try {
     let participant_id = req.params.participant_id
     const sensor_event = req.body
-    participant_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], participant_id)
+    participant_id = await _verify(
+      req.get("Authorization"),
+      ["self", "sibling", "parent"],
+      participant_id,
+      "sensor_event:write",
+      req
+    )
     const output = {
       data: await SensorEventRepository._insert(
         participant_id,
@@ -28,7 +35,13 @@ SensorEventService.delete("/participant/:participant_id/sensor_event", async (re
     const origin: string = req.query.origin
     const from: number | undefined = Number.parse(req.query.from)
     const to: number | undefined = Number.parse(req.query.to)
-    participant_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], participant_id)
+    participant_id = await _verify(
+      req.get("Authorization"),
+      ["self", "sibling", "parent"],
+      participant_id,
+      "sensor_event:admin",
+      req
+    )
     const output = { data: await SensorEventRepository._delete(participant_id, origin, from, to) }
     res.json(output)
   } catch (e) {
@@ -36,6 +49,35 @@ SensorEventService.delete("/participant/:participant_id/sensor_event", async (re
     res.status(parseInt(e.message.split(".")[0]) || 500).json({ error: e.message })
   }
 })
+SensorEventService.get("/participant/:participant_id/sensor_event/aggregate", async (req: Request, res: Response) => {
+  try {
+    let participant_id: string = req.params.participant_id
+    const origin: string = req.query.origin
+    const from: number | undefined = Number.parse(req.query.from)
+    const to: number | undefined = Number.parse(req.query.to)
+    const bucket = _parse_bucket(req.query.bucket ?? "1d")
+    const fn: string = req.query.fn ?? "mean"
+    const field: string = req.query.field ?? "value"
+    const tz = _parse_time_zone(req.query.tz)
+    if (typeof origin !== "string" || origin.length === 0) throw new Error("400.origin-required")
+    if (!["count", "sum", "mean", "min", "max"].includes(fn)) throw new Error("400.invalid-aggregate-function")
+    participant_id = await _verify(
+      req.get("Authorization"),
+      ["self", "sibling", "parent"],
+      participant_id,
+      "sensor_event:read",
+      req
+    )
+    _unredacted(res, [field])
+    const buckets = await SensorEventRepository._aggregate(participant_id, origin, from, to, bucket, field, tz)
+    let output = { data: buckets.map((x) => ({ ...x, value: (x as any)[fn] })) }
+    output = typeof req.query.transform === "string" ? jsonata(req.query.transform).evaluate(output) : output
+    res.json(output)
+  } catch (e) {
+    if (e.message === "401.missing-credentials") res.set("WWW-Authenticate", `Basic realm="LAMP" charset="UTF-8"`)
+    res.status(parseInt(e.message.split(".")[0]) || 500).json({ error: e.message })
+  }
+})
 SensorEventService.get("/participant/:participant_id/sensor_event", async (req: Request, res: Response) => {
   try {
     let participant_id: string = req.params.participant_id
@@ -43,11 +85,23 @@ SensorEventService.get("/participant/:participant_id/sensor_event", async (req:
     const from: number | undefined = Number.parse(req.query.from)
     const to: number | undefined = Number.parse(req.query.to)
     const limit = Math.min(Math.max(Number.parse(req.query.limit) ?? 1000, -1000), 1000) // clamped to [-1000, 1000]
-    participant_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], participant_id)
-    let output = { data: await SensorEventRepository._select(participant_id, origin, from, to, limit) }
+    const cursor: string | undefined = req.query.cursor
+    const filter = { sensor: req.query.sensor as string | undefined, data: _parse_filter(req.query.data) }
+    participant_id = await _verify(
+      req.get("Authorization"),
+      ["self", "sibling", "parent"],
+      participant_id,
+      "sensor_event:read",
+      req
+    )
+    _unredacted(res, Object.keys(filter.data ?? {}))
+    if (await _export(req, res, participant_id, origin, from, to, filter)) return
+    const page = await SensorEventRepository._page(participant_id, origin, from, to, limit, cursor, filter)
+    let output = { data: page.data, cursor: page.cursor }
     output = typeof req.query.transform === "string" ? jsonata(req.query.transform).evaluate(output) : output
     res.json(output)
   } catch (e) {
+    if (res.headersSent) return res.end() // the failure occurred mid-export
     if (e.message === "401.missing-credentials") res.set("WWW-Authenticate", `Basic realm="LAMP" charset="UTF-8"`)
     res.status(parseInt(e.message.split(".")[0]) || 500).json({ error: e.message })
   }
@@ -59,11 +113,23 @@ SensorEventService.get("/study/:study_id/sensor_event", async (req: Request, res
     const from: number | undefined = Number.parse(req.query.from)
     const to: number | undefined = Number.parse(req.query.to)
     const limit = Math.min(Math.max(Number.parse(req.query.limit) ?? 1000, -1000), 1000) // clamped to [-1000, 1000]
-    study_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], study_id)
-    let output = { data: await SensorEventRepository._select(study_id, origin, from, to, limit) }
+    const cursor: string | undefined = req.query.cursor
+    const filter = { sensor: req.query.sensor as string | undefined, data: _parse_filter(req.query.data) }
+    study_id = await _verify(
+      req.get("Authorization"),
+      ["self", "sibling", "parent"],
+      study_id,
+      "sensor_event:read",
+      req
+    )
+    _unredacted(res, Object.keys(filter.data ?? {}))
+    if (await _export(req, res, study_id, origin, from, to, filter)) return
+    const page = await SensorEventRepository._page(study_id, origin, from, to, limit, cursor, filter)
+    let output = { data: page.data, cursor: page.cursor }
     output = typeof req.query.transform === "string" ? jsonata(req.query.transform).evaluate(output) : output
     res.json(output)
   } catch (e) {
+    if (res.headersSent) return res.end() // the failure occurred mid-export
     if (e.message === "401.missing-credentials") res.set("WWW-Authenticate", `Basic realm="LAMP" charset="UTF-8"`)
     res.status(parseInt(e.message.split(".")[0]) || 500).json({ error: e.message })
   }
@@ -75,12 +141,171 @@ SensorEventService.get("/researcher/:researcher_id/sensor_event", async (req: Re
     const from: number | undefined = Number.parse(req.query.from)
     const to: number | undefined = Number.parse(req.query.to)
     const limit = Math.min(Math.max(Number.parse(req.query.limit) ?? 1000, -1000), 1000) // clamped to [-1000, 1000]
-    researcher_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], researcher_id)
-    let output = { data: await SensorEventRepository._select(researcher_id, origin, from, to, limit) }
+    const cursor: string | undefined = req.query.cursor
+    const filter = { sensor: req.query.sensor as string | undefined, data: _parse_filter(req.query.data) }
+    researcher_id = await _verify(
+      req.get("Authorization"),
+      ["self", "sibling", "parent"],
+      researcher_id,
+      "sensor_event:read",
+      req
+    )
+    _unredacted(res, Object.keys(filter.data ?? {}))
+    if (await _export(req, res, researcher_id, origin, from, to, filter)) return
+    const page = await SensorEventRepository._page(researcher_id, origin, from, to, limit, cursor, filter)
+    let output = { data: page.data, cursor: page.cursor }
     output = typeof req.query.transform === "string" ? jsonata(req.query.transform).evaluate(output) : output
     res.json(output)
   } catch (e) {
+    if (res.headersSent) return res.end() // the failure occurred mid-export
     if (e.message === "401.missing-credentials") res.set("WWW-Authenticate", `Basic realm="LAMP" charset="UTF-8"`)
     res.status(parseInt(e.message.split(".")[0]) || 500).json({ error: e.message })
   }
 })
+
+/**
+ * Fail unless each of the `SensorEvent.data` paths that a filter or aggregate reads is free of the fields a team
+ * member's role may not see, since it could otherwise narrow them down without them ever being sent.
+ */
+const _unredacted = (res: Response, paths: string[]): void => {
+  const redact: string[] = res.locals.redact ?? []
+  if (paths.some((x) => x.split(".").some((y) => redact.includes(y)))) throw new Error("403.field-not-allowed-for-role")
+}
+
+/**
+ * Parse a bucket width such as `15m`, `1h`, `1d` or `1w` into milliseconds.
+ */
+const _parse_bucket = (value: string): number => {
+  const match = String(value).match(/^(\d+)([mhdw])$/)
+  const units: { [unit: string]: number } = { m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 }
+  units.w = 7 * units.d
+  if (!match || Number(match[1]) === 0) throw new Error("400.invalid-bucket")
+  return Number(match[1]) * units[match[2]]
+}
+
+/**
+ * Parse the `tz` query parameter, an IANA time zone name or UTC offset, leaving it `undefined` if absent.
+ */
+const _parse_time_zone = (value: any): string | undefined => {
+  if (value === undefined) return undefined
+  if (typeof value !== "string") throw new Error("400.invalid-time-zone")
+  if (/^[+-](0\d|1[0-4]):?[0-5]\d$/.test(value)) return value
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value })
+    return value
+  } catch (e) {
+    throw new Error("400.invalid-time-zone")
+  }
+}
+
+/**
+ * Parse the `data` query parameter, a JSON object of predicates on `SensorEvent.data`.
+ */
+const _parse_filter = (value: any): { [path: string]: any } | undefined => {
+  if (typeof value !== "string" || value.length === 0) return undefined
+  try {
+    return JSON.parse(value)
+  } catch (e) {
+    throw new Error("400.invalid-data-filter")
+  }
+}
+
+/**
+ * The CSV columns for each `SensorName`, as dotted paths into `SensorEvent.data`.
+ * Any other sensor is exported with its `data` object serialized into a single column.
+ */
+const CSVColumns: { [sensor: string]: string[] } = {
+  [SensorName.Accelerometer]: ["x", "y", "z"],
+  [SensorName.Location]: ["latitude", "longitude", "altitude"],
+  [SensorName.ContextualLocation]: ["latitude", "longitude", "accuracy", "context.environment", "context.social"],
+  [SensorName.Height]: ["value", "units"],
+  [SensorName.Weight]: ["value", "units"],
+  [SensorName.HeartRate]: ["value", "units"],
+  [SensorName.BloodPressure]: ["value", "units"],
+  [SensorName.RespiratoryRate]: ["value", "units"],
+  [SensorName.Sleep]: ["value", "units"],
+  [SensorName.Steps]: ["value", "units"],
+  [SensorName.Flights]: ["value", "units"],
+  [SensorName.Segment]: ["value", "units"],
+  [SensorName.Distance]: ["value", "units"],
+}
+
+const _csv_field = (value: any): string => {
+  if (value === undefined || value === null) return ""
+  const str = typeof value === "object" ? JSON.stringify(value) : String(value)
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str
+}
+
+/**
+ * The CSV columns for the requested sensors: the union of their `CSVColumns`, along with a `data`
+ * column if any of them (or any sensor at all, if none were requested) has no columns of its own.
+ */
+const _csv_columns = (origin: string | undefined): string[] => {
+  const sensors = !!origin ? origin.split(",").map((x) => x.trim()) : undefined
+  const columns = (sensors ?? Object.keys(CSVColumns)).map((x) => CSVColumns[x] ?? ["data"])
+  if (sensors === undefined) columns.push(["data"])
+  return columns.reduce((all, x) => [...all, ...x.filter((y) => !all.includes(y))], [])
+}
+
+/**
+ * A CSV row for a `SensorEvent`, filling in only the columns of its own sensor.
+ */
+const _csv_row = (columns: string[], event: SensorEvent): string => {
+  const own = CSVColumns[event.sensor ?? ""] ?? ["data"]
+  return [
+    _csv_field(event.timestamp),
+    _csv_field(event.sensor),
+    ...columns.map((path) =>
+      !own.includes(path)
+        ? ""
+        : _csv_field(path === "data" ? event.data : path.split(".").reduce((obj, key) => obj?.[key], event.data))
+    ),
+  ].join(",")
+}
+
+/**
+ * Stream every matching `SensorEvent` as NDJSON or CSV if the `Accept` header prefers either.
+ * Returns `false` without writing anything if the default JSON envelope should be sent instead.
+ */
+const _export = async (
+  req: Request,
+  res: Response,
+  id: string,
+  origin: string | undefined,
+  from: number | undefined,
+  to: number | undefined,
+  filter: { sensor?: string; data?: { [path: string]: any } }
+): Promise<boolean> => {
+  const format = req.accepts(["application/json", "application/x-ndjson", "text/csv"])
+  if (format !== "application/x-ndjson" && format !== "text/csv") return false
+
+  // Nothing streamed passes through `res.json`, so strip whatever a team member's role may not see here.
+  const redact: string[] = res.locals.redact ?? []
+  const columns = _csv_columns(origin).filter((x) => !x.split(".").some((y) => redact.includes(y)))
+
+  // Stop paging once the client goes away, instead of waiting on a "drain" that will never come.
+  let closed = false
+  res.once("close", () => (closed = true))
+
+  res.status(200).type(format)
+  if (format === "text/csv") res.write(["timestamp", "sensor", ...columns].join(",") + "\n")
+  await SensorEventRepository._export(id, origin, from, to, filter, async (events) => {
+    if (closed || res.writableEnded) return false
+    const chunk = events
+      .map((x) => _redact(x, redact))
+      .map((x) => (format === "text/csv" ? _csv_row(columns, x) : JSON.stringify(x)) + "\n")
+    if (!res.write(chunk.join("")))
+      await new Promise((resolve) => {
+        const done = () => {
+          res.off("drain", done)
+          res.off("close", done)
+          resolve()
+        }
+        res.once("drain", done)
+        res.once("close", done)
+      })
+    return !closed
+  })
+  if (!closed) res.end()
+  return true
+}
@@ -9,7 +9,7 @@ SensorService.post("/study/:study_id/sensor", async (req: Request, res: Response
   try {
     let study_id = req.params.study_id
     const sensor = req.body
-    study_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], study_id)
+    study_id = await _verify(req.get("Authorization"), ["parent"], study_id, "sensor:write", req)
     const output = { data: await SensorRepository._insert(study_id, sensor) }
     res.json(output)
   } catch (e) {
@@ -21,7 +21,7 @@ SensorService.put("/sensor/:sensor_id", async (req: Request, res: Response) => {
   try {
     let sensor_id = req.params.sensor_id
     const sensor = req.body
-    sensor_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], sensor_id)
+    sensor_id = await _verify(req.get("Authorization"), ["parent"], sensor_id, "sensor:write", req)
     const output = { data: await SensorRepository._update(sensor_id, sensor) }
     res.json(output)
   } catch (e) {
@@ -32,7 +32,7 @@ SensorService.put("/sensor/:sensor_id", async (req: Request, res: Response) => {
 SensorService.delete("/sensor/:sensor_id", async (req: Request, res: Response) => {
   try {
     let sensor_id = req.params.sensor_id
-    sensor_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], sensor_id)
+    sensor_id = await _verify(req.get("Authorization"), ["parent"], sensor_id, "sensor:admin", req)
     const output = { data: await SensorRepository._delete(sensor_id) }
     res.json(output)
   } catch (e) {
@@ -43,7 +43,7 @@ SensorService.delete("/sensor/:sensor_id", async (req: Request, res: Response) =
 SensorService.get("/sensor/:sensor_id", async (req: Request, res: Response) => {
   try {
     let sensor_id = req.params.sensor_id
-    sensor_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], sensor_id)
+    sensor_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], sensor_id, "sensor:read", req)
     let output = { data: await SensorRepository._select(sensor_id) }
     output = typeof req.query.transform === "string" ? jsonata(req.query.transform).evaluate(output) : output
     res.json(output)
@@ -55,7 +55,13 @@ SensorService.get("/sensor/:sensor_id", async (req: Request, res: Response) => {
 SensorService.get("/participant/:participant_id/sensor", async (req: Request, res: Response) => {
   try {
     let participant_id = req.params.participant_id
-    participant_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], participant_id)
+    participant_id = await _verify(
+      req.get("Authorization"),
+      ["self", "sibling", "parent"],
+      participant_id,
+      "sensor:read",
+      req
+    )
     let output = { data: await SensorRepository._select(participant_id) }
     output = typeof req.query.transform === "string" ? jsonata(req.query.transform).evaluate(output) : output
     res.json(output)
@@ -67,7 +73,7 @@ SensorService.get("/participant/:participant_id/sensor", async (req: Request, re
 SensorService.get("/study/:study_id/sensor", async (req: Request, res: Response) => {
   try {
     let study_id = req.params.study_id
-    study_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], study_id)
+    study_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], study_id, "sensor:read", req)
     let output = { data: await SensorRepository._select(study_id) }
     output = typeof req.query.transform === "string" ? jsonata(req.query.transform).evaluate(output) : output
     res.json(output)
@@ -79,7 +85,13 @@ SensorService.get("/study/:study_id/sensor", async (req: Request, res: Response)
 SensorService.get("/researcher/:researcher_id/sensor", async (req: Request, res: Response) => {
   try {
     let researcher_id = req.params.researcher_id
-    researcher_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], researcher_id)
+    researcher_id = await _verify(
+      req.get("Authorization"),
+      ["self", "sibling", "parent"],
+      researcher_id,
+      "sensor:read",
+      req
+    )
     let output = { data: await SensorRepository._select(researcher_id) }
     output = typeof req.query.transform === "string" ? jsonata(req.query.transform).evaluate(output) : output
     res.json(output)
@@ -90,7 +102,7 @@ SensorService.get("/researcher/:researcher_id/sensor", async (req: Request, res:
 })
 SensorService.get("/sensor", async (req: Request, res: Response) => {
   try {
-    const _ = await _verify(req.get("Authorization"), ["parent"])
+    const _ = await _verify(req.get("Authorization"), ["parent"], undefined, "sensor:read", req)
     let output = { data: await SensorRepository._select() }
     output = typeof req.query.transform === "string" ? jsonata(req.query.transform).evaluate(output) : output
     res.json(output)
@@ -8,7 +8,7 @@ export const SensorSpecService = Router()
 SensorSpecService.post("/sensor_spec", async (req: Request, res: Response) => {
   try {
     const sensor_spec = req.body
-    const _ = await _verify(req.get("Authorization"), ["self", "sibling", "parent"])
+    const _ = await _verify(req.get("Authorization"), [], undefined, "sensor_spec:write", req)
     const output = { data: await SensorSpecRepository._insert(sensor_spec) }
     res.json(output)
   } catch (e) {
@@ -20,7 +20,7 @@ SensorSpecService.put("/sensor_spec/:sensor_spec_name", async (req: Request, res
   try {
     const sensor_spec_name = req.params.sensor_spec_name
     const sensor_spec = req.body
-    const _ = await _verify(req.get("Authorization"), ["self", "sibling", "parent"])
+    const _ = await _verify(req.get("Authorization"), [], undefined, "sensor_spec:write", req)
     const output = { data: await SensorSpecRepository._update(sensor_spec_name, sensor_spec) }
     res.json(output)
   } catch (e) {
@@ -31,7 +31,7 @@ SensorSpecService.put("/sensor_spec/:sensor_spec_name", async (req: Request, res
 SensorSpecService.delete("/sensor_spec/:sensor_spec_name", async (req: Request, res: Response) => {
   try {
     const sensor_spec_name = req.params.sensor_spec_name
-    const _ = await _verify(req.get("Authorization"), ["self", "sibling", "parent"])
+    const _ = await _verify(req.get("Authorization"), [], undefined, "sensor_spec:admin", req)
     let output = { data: await SensorSpecRepository._delete(sensor_spec_name) }
     output = typeof req.query.transform === "string" ? jsonata(req.query.transform).evaluate(output) : output
     res.json(output)
@@ -43,7 +43,7 @@ SensorSpecService.delete("/sensor_spec/:sensor_spec_name", async (req: Request,
 SensorSpecService.get("/sensor_spec/:sensor_spec_name", async (req: Request, res: Response) => {
   try {
     const sensor_spec_name = req.params.sensor_spec_name
-    const _ = await _verify(req.get("Authorization"), ["self", "sibling", "parent"])
+    const _ = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], undefined, "sensor_spec:read", req)
     let output = { data: await SensorSpecRepository._select(sensor_spec_name) }
     output = typeof req.query.transform === "string" ? jsonata(req.query.transform).evaluate(output) : output
     res.json(output)
@@ -54,7 +54,7 @@ SensorSpecService.get("/sensor_spec/:sensor_spec_name", async (req: Request, res
 })
 SensorSpecService.get("/sensor_spec", async (req: Request, res: Response) => {
   try {
-    const _ = await _verify(req.get("Authorization"), ["self", "sibling", "parent"])
+    const _ = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], undefined, "sensor_spec:read", req)
     let output = { data: await SensorSpecRepository._select() }
     output = typeof req.query.transform === "string" ? jsonata(req.query.transform).evaluate(output) : output
     res.json(output)
@@ -0,0 +1,80 @@
+import { Request, Response, Router, NextFunction } from "express"
+import { StudyMember } from "../model/StudyMember"
+import { StudyMemberRepository } from "../repository/StudyMemberRepository"
+import { _verify } from "./Security"
+import jsonata from "jsonata"
+
+export const StudyMemberService = Router()
+
+// Strip the fields that `_verify` found a team member's role may not see from whatever is sent back. A
+// `transform` could rename those fields out from under us, so it isn't allowed alongside any redaction.
+StudyMemberService.use((req: Request, res: Response, next: NextFunction) => {
+  const json = res.json.bind(res)
+  res.json = (body: any): Response => {
+    const fields: string[] = res.locals.redact ?? []
+    if (fields.length === 0 || res.statusCode >= 400) return json(body)
+    if (req.query.transform !== undefined) return res.status(403).json({ error: "403.transform-not-allowed-for-role" })
+    return json(_redact(body, fields))
+  }
+  next()
+})
+StudyMemberService.post("/study/:study_id/team", async (req: Request, res: Response) => {
+  try {
+    let study_id = req.params.study_id
+    const member: StudyMember = req.body
+    study_id = await _verify(req.get("Authorization"), ["self", "parent"], study_id, "study:admin", req)
+    const output = { data: await StudyMemberRepository._insert(study_id, member) }
+    res.json(output)
+  } catch (e) {
+    if (e.message === "401.missing-credentials") res.set("WWW-Authenticate", `Basic realm="LAMP" charset="UTF-8"`)
+    res.status(parseInt(e.message.split(".")[0]) || 500).json({ error: e.message })
+  }
+})
+StudyMemberService.delete("/study/:study_id/team/:researcher_id", async (req: Request, res: Response) => {
+  try {
+    let study_id = req.params.study_id
+    const researcher_id = req.params.researcher_id
+    study_id = await _verify(req.get("Authorization"), ["self", "parent"], study_id, "study:admin", req)
+    await StudyMemberRepository._delete(study_id, researcher_id)
+    const output = { data: {} }
+    res.json(output)
+  } catch (e) {
+    if (e.message === "401.missing-credentials") res.set("WWW-Authenticate", `Basic realm="LAMP" charset="UTF-8"`)
+    res.status(parseInt(e.message.split(".")[0]) || 500).json({ error: e.message })
+  }
+})
+StudyMemberService.get("/study/:study_id/team", async (req: Request, res: Response) => {
+  try {
+    let study_id = req.params.study_id
+    study_id = await _verify(req.get("Authorization"), ["self", "parent"], study_id, "study:read", req)
+    let output = { data: await StudyMemberRepository._select(study_id) }
+    output = typeof req.query.transform === "string" ? jsonata(req.query.transform).evaluate(output) : output
+    res.json(output)
+  } catch (e) {
+    if (e.message === "401.missing-credentials") res.set("WWW-Authenticate", `Basic realm="LAMP" charset="UTF-8"`)
+    res.status(parseInt(e.message.split(".")[0]) || 500).json({ error: e.message })
+  }
+})
+StudyMemberService.get("/researcher/:researcher_id/team", async (req: Request, res: Response) => {
+  try {
+    let researcher_id = req.params.researcher_id
+    researcher_id = await _verify(req.get("Authorization"), ["self", "parent"], researcher_id, "study:read", req)
+    let output = { data: await StudyMemberRepository._studies(researcher_id) }
+    output = typeof req.query.transform === "string" ? jsonata(req.query.transform).evaluate(output) : output
+    res.json(output)
+  } catch (e) {
+    if (e.message === "401.missing-credentials") res.set("WWW-Authenticate", `Basic realm="LAMP" charset="UTF-8"`)
+    res.status(parseInt(e.message.split(".")[0]) || 500).json({ error: e.message })
+  }
+})
+
+/**
+ * Copy a value without the named fields, at any depth.
+ */
+export const _redact = (value: any, fields: string[]): any => {
+  if (Array.isArray(value)) return value.map((x) => _redact(x, fields))
+  if (value === null || typeof value !== "object") return value
+  return Object.entries(value)
+    .filter(([key]) => !fields.includes(key))
+    .reduce((obj, [key, x]) => ({ ...obj, [key]: _redact(x, fields) }), {} as any)
+}
@@ -0,0 +1,35 @@
+import { Request, Response, Router } from "express"
+import { Token } from "../model/Token"
+import { TokenRepository } from "../repository/TokenRepository"
+import { _authenticate } from "./Security"
+
+export const TokenService = Router()
+TokenService.post("/token", async (req: Request, res: Response) => {
+  try {
+    const grant = req.body ?? {}
+    let output: { data: Token }
+    if (grant.grant_type === "password") {
+      if (typeof grant.access_key !== "string" || typeof grant.secret_key !== "string" || !grant.secret_key)
+        throw new Error("400.token-requires-access-and-secret-keys")
+      const { id, scopes } = await _authenticate(grant.access_key, grant.secret_key, req)
+      output = { data: await TokenRepository._issue(id, id === "root" ? "root" : grant.access_key, scopes) }
+    } else if (grant.grant_type === "refresh_token") {
+      if (typeof grant.refresh_token !== "string") throw new Error("400.token-requires-refresh-token")
+      output = { data: await TokenRepository._refresh(grant.refresh_token) }
+    } else throw new Error("400.unsupported-grant-type")
+    res.json(output)
+  } catch (e) {
+    if (e.message.startsWith("401.")) res.set("WWW-Authenticate", `Bearer realm="LAMP" charset="UTF-8"`)
+    res.status(parseInt(e.message.split(".")[0]) || 500).json({ error: e.message })
+  }
+})
+TokenService.post("/token/revoke", async (req: Request, res: Response) => {
+  try {
+    const token = req.body?.token
+    if (typeof token !== "string") throw new Error("400.revoke-requires-token")
+    const output = { data: await TokenRepository._revoke(token) }
+    res.json(output)
+  } catch (e) {
+    res.status(parseInt(e.message.split(".")[0]) || 500).json({ error: e.message })
+  }
+})
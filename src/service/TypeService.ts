@@ -8,7 +8,7 @@ export const TypeService = Router()
 TypeService.get("/type/:type_id/parent", async (req: Request, res: Response) => {
   try {
     let type_id = req.params.type_id
-    type_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], type_id)
+    type_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], type_id, "type:read", req)
     let output = { data: await TypeRepository._parent(type_id) }
     output = typeof req.query.transform === "string" ? jsonata(req.query.transform).evaluate(output) : output
     res.json(output)
@@ -22,7 +22,7 @@ TypeService.get("/type/:type_id/attachment/:attachment_key?/:index?", async (req
     let type_id = req.params.type_id
     const attachment_key = req.params.attachment_key
     const index = req.params.index
-    type_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], type_id)
+    type_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], type_id, "type:read", req)
     if (attachment_key !== undefined) {
       let obj = await TypeRepository._get("a", <string>type_id, attachment_key)
 
@@ -60,7 +60,7 @@ TypeService.put("/type/:type_id/attachment/:attachment_key/:target", async (req:
     const attachment_key = req.params.attachment_key
     const target = req.params.target
     const attachment_value = req.body
-    type_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], type_id)
+    type_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], type_id, "type:write", req)
     const output = {
       data: (await TypeRepository._set("a", target, <string>type_id, attachment_key, attachment_value))
         ? {}
@@ -79,7 +79,7 @@ TypeService.get("/type/:type_id/attachment/dynamic/:attachment_key", async (req:
     const invoke_always = req.query.invoke_always
     const ignore_output = req.query.ignore_output
     const include_logs = req.query.include_logs
-    type_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], type_id)
+    type_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], type_id, "type:read", req)
 
     let result: any = {}
     if (!!invoke_always) {
@@ -113,7 +113,7 @@ TypeService.put("/type/:type_id/attachment/dynamic/:attachment_key/:target", asy
     const target = req.params.target
     const attachment_value = req.body
     const invoke_once = req.query.invoke_once
-    type_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], type_id)
+    type_id = await _verify(req.get("Authorization"), ["self", "sibling", "parent"], type_id, "type:write", req)
 
     let result: any = null /* error */
     if (TypeRepository._set("b", target, <string>type_id, attachment_key, attachment_value)) {
@@ -1,9 +1,11 @@
-import { Router, Request, Response } from "express"
+import { Router, Request, Response, NextFunction } from "express"
 
+import { AuditService } from "./AuditService"
 import { TypeService } from "./TypeService"
 import { CredentialService } from "./CredentialService"
 import { ResearcherService } from "./ResearcherService"
 import { StudyService } from "./StudyService"
+import { StudyMemberService } from "./StudyMemberService"
 import { ParticipantService } from "./ParticipantService"
 import { ActivityService } from "./ActivityService"
 import { ActivitySpecService } from "./ActivitySpecService"
@@ -11,8 +13,11 @@ import { ActivityEventService, ResultEventService } from "./ActivityEventService
 import { SensorService } from "./SensorService"
 import { SensorSpecService } from "./SensorSpecService"
 import { SensorEventService } from "./SensorEventService"
+import { TokenService } from "./TokenService"
+import { LockoutService } from "./LockoutService"
 
 import jsonata from "jsonata"
+import { AccessCitation, Metadata } from "../model/Document"
 import { _verify } from "../service/Security"
 import { ActivityEventRepository } from "../repository/ActivityEventRepository"
 import { ActivityRepository } from "../repository/ActivityRepository"
@@ -23,69 +28,92 @@ import { StudyRepository } from "../repository/StudyRepository"
 import { TypeRepository } from "../repository/TypeRepository"
 import { ResearcherRepository } from "../repository/ResearcherRepository"
 
-export async function Query(query: string, auth: string | undefined, verify = true): Promise<any> {
+export async function Query(query: string, auth: string | undefined, verify = true, req?: Request): Promise<any> {
   return new Promise((resolve, reject) => {
     jsonata(query).evaluate(
       {},
       {
         ActivityEvent_all: async (participant_id: string, origin: string, from: number, to: number) => {
-          if (verify) participant_id = await _verify(auth, ["self", "sibling", "parent"], participant_id)
+          if (verify)
+            participant_id = await _verify(
+              auth,
+              ["self", "sibling", "parent"],
+              participant_id,
+              "activity_event:read",
+              req
+            )
           return await ActivityEventRepository._select(participant_id, origin, from, to)
         },
         Activity_all: async () => {
-          if (verify) await _verify(auth, ["parent"])
+          if (verify) await _verify(auth, ["parent"], undefined, "activity:read", req)
           return await ActivityRepository._select()
         },
         Activity_view: async (participant_or_study_id: string) => {
           if (verify)
-            participant_or_study_id = await _verify(auth, ["self", "sibling", "parent"], participant_or_study_id)
+            participant_or_study_id = await _verify(
+              auth,
+              ["self", "sibling", "parent"],
+              participant_or_study_id,
+              "activity:read",
+              req
+            )
           return await ActivityRepository._select(participant_or_study_id)
         },
         Credential_list: async (type_id: string) => {
-          if (verify) type_id = await _verify(auth, ["self", "parent"], type_id)
+          if (verify) type_id = await _verify(auth, ["self", "parent"], type_id, "credential:read", req)
           return await CredentialRepository._select(type_id)
         },
         Participant_all: async (study_id: string) => {
-          if (verify) study_id = await _verify(auth, ["self", "sibling", "parent"], study_id)
+          if (verify) study_id = await _verify(auth, ["self", "sibling", "parent"], study_id, "participant:read", req)
           return await ParticipantRepository._select(study_id)
         },
         Participant_view: async (participant_id: string) => {
-          if (verify) participant_id = await _verify(auth, ["self", "sibling", "parent"], participant_id)
+          if (verify)
+            participant_id = await _verify(auth, ["self", "sibling", "parent"], participant_id, "participant:read", req)
           return await ParticipantRepository._select(participant_id)
         },
         Researcher_all: async () => {
-          if (verify) await _verify(auth, [])
+          if (verify) await _verify(auth, [], undefined, "researcher:read", req)
           return await ResearcherRepository._select()
         },
         Researcher_view: async (researcher_id: string) => {
-          if (verify) researcher_id = await _verify(auth, ["self", "sibling", "parent"], researcher_id)
+          if (verify)
+            researcher_id = await _verify(auth, ["self", "sibling", "parent"], researcher_id, "researcher:read", req)
           return await ResearcherRepository._select(researcher_id)
         },
         SensorEvent_all: async (participant_id: string, origin: string, from: number, to: number) => {
-          if (verify) participant_id = await _verify(auth, ["self", "sibling", "parent"], participant_id)
+          if (verify)
+            participant_id = await _verify(
+              auth,
+              ["self", "sibling", "parent"],
+              participant_id,
+              "sensor_event:read",
+              req
+            )
           return await SensorEventRepository._select(participant_id, origin, from, to)
         },
         Study_all: async (researcher_id: string) => {
-          if (verify) researcher_id = await _verify(auth, ["self", "sibling", "parent"], researcher_id)
+          if (verify)
+            researcher_id = await _verify(auth, ["self", "sibling", "parent"], researcher_id, "study:read", req)
           return await StudyRepository._select(researcher_id)
         },
         Study_view: async (study_id: string) => {
-          if (verify) study_id = await _verify(auth, ["self", "sibling", "parent"], study_id)
+          if (verify) study_id = await _verify(auth, ["self", "sibling", "parent"], study_id, "study:read", req)
           return await StudyRepository._select(study_id)
         },
         Type_parent: async (type_id: string) => {
-          if (verify) type_id = await _verify(auth, ["self", "sibling", "parent"], type_id)
+          if (verify) type_id = await _verify(auth, ["self", "sibling", "parent"], type_id, "type:read", req)
           return await TypeRepository._parent(type_id)
         },
         Tags_list: async (type_id: string) => {
-          if (verify) type_id = await _verify(auth, ["self", "sibling", "parent"], type_id)
+          if (verify) type_id = await _verify(auth, ["self", "sibling", "parent"], type_id, "type:read", req)
           return (<string[]>[]).concat(
             await TypeRepository._list("a", <string>type_id),
             (await TypeRepository._list("b", <string>type_id)).map((x) => "dynamic/" + x)
           )
         },
         Tags_view: async (type_id: string, attachment_key: string) => {
-          if (verify) type_id = await _verify(auth, ["self", "sibling", "parent"], type_id)
+          if (verify) type_id = await _verify(auth, ["self", "sibling", "parent"], type_id, "type:read", req)
           let x = null
           try {
             x = await TypeRepository._get("a", <string>type_id, attachment_key)
@@ -101,7 +129,35 @@ export async function Query(query: string, auth: string | undefined, verify = tr
   })
 }
 
+/**
+ * Wrap every `{ data }` response in a `Document` envelope, with metadata on the access, how long it took,
+ * the number of results (unless they're paged), and the filters applied. Clients may ask for the bare
+ * `{ data }` with `?envelope=legacy` instead.
+ */
+function Envelope(req: Request, res: Response, next: NextFunction): void {
+  const start = Date.now()
+  const json = res.json.bind(res)
+  res.json = (body?: any): Response => {
+    if (req.query.envelope === "legacy" || typeof body !== "object" || body === null || !("data" in body))
+      return json(body)
+    const citations: AccessCitation[] = res.locals.audit ?? []
+    const filters: { [key: string]: any } = { ...req.query, ...req.params }
+    for (const key of ["transform", "envelope", "cursor"]) delete filters[key]
+    const meta: Metadata = {
+      access: citations[citations.length - 1] ?? { in: "", at: req.ip, on: start, by: "" },
+      duration: Date.now() - start,
+      count: Array.isArray(body.data) && !("cursor" in body) ? body.data.length : undefined,
+      filters,
+    }
+    return json({ meta, ...body })
+  }
+  next()
+}
+
 const API = Router()
+API.use(Envelope)
+API.use(AuditService)
+API.use(StudyMemberService)
 API.use(TypeService)
 API.use(CredentialService)
 API.use(ResearcherService)
@@ -114,10 +170,16 @@ API.use(ResultEventService) // FIXME: DEPRECATED
 API.use(SensorService)
 API.use(SensorSpecService)
 API.use(SensorEventService)
+API.use(TokenService)
+API.use(LockoutService)
 API.post("/", async (req, res) => {
   try {
-    const data = await Query(req.body ?? "", req.get("Authorization"))
-    res.status(200).json(data)
+    const data = await Query(req.body ?? "", req.get("Authorization"), true, req)
+
+    // A query could copy the fields a team member's role may not see into ones that aren't stripped, so
+    // it isn't allowed to read anything that would be redacted, just like a `transform`.
+    if ((res.locals.redact ?? []).length > 0) res.status(403).json({ error: "403.query-not-allowed-for-role" })
+    else res.status(200).json(data)
   } catch (e) {
     res.status(500).json({ error: e.message })
   }
@@ -0,0 +1,139 @@
+import sql from "mssql"
+import { SQL, Keyring, Encrypt, Decrypt, Current, Hash, Hashed } from "../app"
+
+/**
+ * Re-encrypt a stored value under the primary key of the `Keyring`, if it isn't already, returning
+ * `undefined` if it needs no change or could not be decrypted.
+ */
+const _reencrypt = (mode: "Rijndael" | "AES256") => (value: any): string | undefined => {
+  if (typeof value !== "string" || value.length === 0 || Hashed(value) || Current(value)) return undefined
+  const data = Decrypt(value, mode)
+  return data === undefined ? undefined : Encrypt(data, mode)
+}
+
+/**
+ * Hash a stored secret that is still reversibly encrypted, as signing in with it would, returning `undefined`
+ * if it needs no change or could not be decrypted. Whichever key it is under, it is then never decrypted again.
+ */
+const _rehash = async (value: any): Promise<string | undefined> => {
+  if (typeof value !== "string" || value.length === 0 || Hashed(value)) return undefined
+  const data = Decrypt(value, "AES256")
+  return data === undefined ? undefined : await Hash(data)
+}
+
+/**
+ * The columns holding encrypted values, along with how to re-encrypt (or hash) each of them.
+ */
+const _tables: {
+  table: string
+  key: string
+  where?: string
+  columns: { [column: string]: (value: any) => string | undefined | Promise<string | undefined> }
+}[] = [
+  {
+    table: "Admin",
+    key: "AdminID",
+    columns: {
+      Email: _reencrypt("Rijndael"),
+      Password: _rehash,
+      FirstName: _reencrypt("Rijndael"),
+      LastName: _reencrypt("Rijndael"),
+    },
+  },
+  {
+    table: "Users",
+    key: "UserID",
+    columns: {
+      Email: _reencrypt("Rijndael"),
+      Password: _rehash,
+      StudyCode: _reencrypt("Rijndael"),
+      StudyId: _reencrypt("Rijndael"),
+    },
+  },
+  {
+    table: "UserSettings",
+    key: "UserSettingID",
+    columns: {
+      AppColor: _reencrypt("Rijndael"),
+      "24By7ContactNo": _reencrypt("Rijndael"),
+      PersonalHelpline: _reencrypt("Rijndael"),
+    },
+  },
+  {
+    table: "LAMP_Aux.dbo.OOLAttachment",
+    key: "AttachmentID",
+    where: "ObjectType = 'Credential'",
+    columns: {
+      Value: async (value: any): Promise<string | undefined> => {
+        // Leave a malformed row alone rather than stopping the whole pass on it.
+        let credential: any
+        try {
+          credential = JSON.parse(value)
+        } catch (e) {
+          return undefined
+        }
+        const secret_key = await _rehash(credential.secret_key)
+        const previous_secret_key = await _rehash(credential.previous_secret_key)
+        if (secret_key === undefined && previous_secret_key === undefined) return undefined
+        return JSON.stringify({
+          ...credential,
+          secret_key: secret_key ?? credential.secret_key,
+          previous_secret_key: previous_secret_key ?? credential.previous_secret_key,
+        })
+      },
+    },
+  },
+]
+
+/**
+ * Walk every encrypted column in batches, re-encrypting any value that isn't under the primary key of the
+ * `Keyring` and hashing any secret that isn't hashed yet, so that the other keys can be retired once it finishes. Each row is only updated if it hasn't
+ * changed in the meantime, so this is safe to run alongside requests, or more than once at a time.
+ */
+export async function Reencrypt(): Promise<void> {
+  if (Keyring.length === 0) return
+  for (const { table, key, where, columns } of _tables) {
+    const fields = Object.keys(columns)
+      .map((x) => `[${x}]`)
+      .join(", ")
+    let last = 0
+    while (true) {
+      const req1 = SQL!.request()
+      req1.input("last", sql.BigInt, last)
+      const rows = (
+        await req1.query(`
+            SELECT TOP 500 ${key} AS id, ${fields}
+            FROM ${table}
+            WHERE ${key} > @last ${!!where ? `AND ${where}` : ""}
+            ORDER BY ${key};
+        `)
+      ).recordset
+      if (rows.length === 0) break
+      last = rows[rows.length - 1].id
+
+      for (const row of rows) {
+        const changes = (
+          await Promise.all(
+            Object.entries(columns).map(async ([column, fn]) => ({
+              column,
+              orig: row[column],
+              value: await fn(row[column]),
+            }))
+          )
+        ).filter((x) => x.value !== undefined)
+        if (changes.length === 0) continue
+        const req2 = SQL!.request()
+        req2.input("id", sql.BigInt, row.id)
+        changes.forEach((x, idx) => {
+          req2.input(`value${idx}`, sql.NVarChar, x.value)
+          req2.input(`orig${idx}`, sql.NVarChar, x.orig)
+        })
+        await req2.query(`
+            UPDATE ${table}
+            SET ${changes.map((x, idx) => `[${x.column}] = @value${idx}`).join(", ")}
+            WHERE ${key} = @id ${changes.map((x, idx) => `AND [${x.column}] = @orig${idx}`).join(" ")};
+        `)
+      }
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import Ajv from "ajv"
+import { TypeRepository } from "../repository/TypeRepository"
+
+// Compiled validators are cached by ajv against the serialized schema.
+const ajv = new Ajv({ allErrors: true, jsonPointers: true })
+
+/**
+ * Validate the data against a JSON Schema, returning each failure as `<JSON pointer>: <message>`.
+ * If there is no schema to validate against, the data is always considered valid.
+ */
+export function Validate(schema: any, data: any, prefix = ""): string[] {
+  if (schema === undefined || schema === null) return []
+  let validate: Ajv.ValidateFunction
+  try {
+    validate = ajv.compile(schema)
+  } catch (e) {
+    return [`${prefix || "/"}: schema is invalid (${e.message})`]
+  }
+  if (validate(data)) return []
+  return (validate.errors ?? []).map((x) => `${prefix + x.dataPath || "/"}: ${x.message}`)
+}
+
+/**
+ * Check that the value is itself a valid JSON Schema, returning each failure as in `Validate`.
+ */
+export function ValidateSchema(schema: any, prefix = ""): string[] {
+  if (schema === undefined || schema === null) return []
+  if (ajv.validateSchema(schema)) return []
+  return (ajv.errors ?? []).map((x) => `${prefix + x.dataPath || "/"}: ${x.message}`)
+}
+
+/**
+ * Validate a batch of events being appended for a participant, returning the events to store along with
+ * the failures to report. Invalid events are only warned about, unless the participant's study is configured
+ * to reject them by its attachment under `mode_key`, in which case they are dropped.
+ */
+export async function ValidateEvents<T>(
+  participant_id: string,
+  objects: T[],
+  mode_key: string,
+  validate: (event: T) => string[]
+): Promise<{
+  objects: T[]
+  result: { rejected?: { index: number; errors: string[] }[]; warnings?: { index: number; errors: string[] }[] }
+}> {
+  const invalid = objects.map((x, index) => ({ index, errors: validate(x) })).filter((x) => x.errors.length > 0)
+  if (invalid.length === 0) return { objects, result: {} }
+  if ((await _validation_mode(participant_id, mode_key)) === "warn") return { objects, result: { warnings: invalid } }
+  return { objects: objects.filter((_, idx) => !invalid.some((x) => x.index === idx)), result: { rejected: invalid } }
+}
+
+/**
+ * Whether the participant's study rejects invalid events or only warns about them, as configured by
+ * its attachment under `mode_key`. Studies warn unless configured otherwise.
+ */
+const _validation_mode = async (participant_id: string, mode_key: string): Promise<"warn" | "reject"> => {
+  try {
+    const study_id = await TypeRepository._parent_id(participant_id, "Study")
+    return (await TypeRepository._get("a", study_id, mode_key)) === "reject" ? "reject" : "warn"
+  } catch (e) {
+    return "warn"
+  }
+}
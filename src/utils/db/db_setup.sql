@@ -1189,6 +1189,17 @@ CREATE TABLE LAMP_Aux.dbo.GPSLookup (
 );
 GO
 
+IF OBJECT_ID('LAMP_Aux.dbo.LoginFailure', 'U') IS NOT NULL
+	DROP TABLE LAMP_Aux.dbo.LoginFailure;
+GO
+CREATE TABLE LAMP_Aux.dbo.LoginFailure (
+	[Key] nvarchar(450) NOT NULL,
+	Failures int NOT NULL,
+	LastFailure datetime NOT NULL,
+	CONSTRAINT PK_LoginFailure PRIMARY KEY ([Key])
+);
+GO
+
 IF OBJECT_ID('LAMP_Aux.dbo.OOLAttachment', 'U') IS NOT NULL
 	DROP TABLE LAMP_Aux.dbo.OOLAttachment;
 GO
@@ -1228,6 +1239,52 @@ CREATE TABLE LAMP_Aux.dbo.OOLTriggerSet (
 );
 GO
 
+IF OBJECT_ID('LAMP_Aux.dbo.RevokedToken', 'U') IS NOT NULL
+	DROP TABLE LAMP_Aux.dbo.RevokedToken;
+GO
+CREATE TABLE LAMP_Aux.dbo.RevokedToken (
+	TokenID nvarchar(64) NOT NULL,
+	ExpiresOn datetime NOT NULL,
+	CONSTRAINT PK_RevokedToken PRIMARY KEY (TokenID)
+);
+GO
+
+IF OBJECT_ID('LAMP_Aux.dbo.Study', 'U') IS NOT NULL
+	DROP TABLE LAMP_Aux.dbo.Study;
+GO
+CREATE TABLE LAMP_Aux.dbo.Study (
+	StudyID bigint NOT NULL IDENTITY(1,1),
+	AdminID bigint NOT NULL,
+	Name nvarchar(max) NOT NULL,
+	IsDeleted bit NOT NULL DEFAULT (0),
+	CreatedOn datetime NULL DEFAULT (getdate()),
+	CONSTRAINT PK_Study PRIMARY KEY (StudyID)
+);
+GO
+
+IF OBJECT_ID('LAMP_Aux.dbo.StudyLinker', 'U') IS NOT NULL
+	DROP TABLE LAMP_Aux.dbo.StudyLinker;
+GO
+CREATE TABLE LAMP_Aux.dbo.StudyLinker (
+	StudyID bigint NOT NULL,
+	ObjectType nvarchar(64) NOT NULL,
+	ObjectID nvarchar(1024) NOT NULL
+);
+GO
+
+IF OBJECT_ID('LAMP_Aux.dbo.StudyMember', 'U') IS NOT NULL
+	DROP TABLE LAMP_Aux.dbo.StudyMember;
+GO
+CREATE TABLE LAMP_Aux.dbo.StudyMember (
+	AdminID bigint NOT NULL,
+	StudyID bigint NOT NULL,
+	MemberID bigint NOT NULL,
+	Role nvarchar(64) NOT NULL,
+	CreatedOn datetime NULL DEFAULT (getdate()),
+	CONSTRAINT PK_StudyMember PRIMARY KEY (AdminID, StudyID, MemberID)
+);
+GO
+
 IF OBJECT_ID('LAMP_Aux.dbo.SurveyNameIDMap', 'U') IS NOT NULL
 	DROP TABLE LAMP_Aux.dbo.SurveyNameIDMap;
 GO
@@ -0,0 +1,92 @@
+jest.mock("../src/app", () => require("./fakes"))
+import * as fakes from "./fakes"
+import { request, root } from "./http"
+import { SensorEventRepository } from "../src/repository/SensorEventRepository"
+
+const day = 24 * 60 * 60 * 1000
+const jan1 = Date.UTC(2021, 0, 1)
+
+// Participant U1 has steps at 04:00 and 06:00 UTC on January 1st, which is either side of midnight at UTC-05:00.
+const events = [
+  { "#parent": "U1", sensor: "lamp.steps", timestamp: jan1 + 4 * 60 * 60 * 1000, data: { value: 10 } },
+  { "#parent": "U1", sensor: "lamp.steps", timestamp: jan1 + 6 * 60 * 60 * 1000, data: { value: 20 } },
+  { "#parent": "U1", sensor: "lamp.steps", timestamp: jan1 + 7 * 60 * 60 * 1000, data: { value: 30 } },
+]
+
+// A CouchDB `aggregate/value` view over the events, understanding only the ranges that `_aggregate` requests.
+const _compare = (a: any, b: any): number =>
+  typeof a === "object" ? (typeof b === "object" ? 0 : 1) : typeof b === "object" ? -1 : a - b
+const _range = (params: any): any[] => {
+  const rows = events
+    .map((x) => ({ key: [x["#parent"], x.sensor, x.timestamp] as any[], value: x.data.value }))
+    .filter((x) => x.key[0] === params.startkey[0] && x.key[1] === params.startkey[1])
+  const [lo, hi] = params.descending ? [params.endkey[2], params.startkey[2]] : [params.startkey[2], params.endkey[2]]
+  const inclusive_end = params.inclusive_end !== false || params.descending
+  return rows
+    .filter((x) => lo === undefined || _compare(x.key[2], lo) >= 0)
+    .filter((x) => (inclusive_end ? _compare(x.key[2], hi) <= 0 : _compare(x.key[2], hi) < 0))
+    .sort((a, b) => (params.descending ? -1 : 1) * (a.key[2] - b.key[2]))
+}
+const view = async (_ddoc: string, _view: string, params: any): Promise<any> => {
+  if (params.queries === undefined) return { rows: _range(params).slice(0, params.limit) }
+  return {
+    results: params.queries.map((query: any) => {
+      const values = _range(query).map((x) => x.value)
+      if (values.length === 0) return { rows: [] }
+      const sum = values.reduce((a, b) => a + b, 0)
+      return {
+        rows: [{ key: null, value: { count: values.length, sum, min: Math.min(...values), max: Math.max(...values) } }],
+      }
+    }),
+  }
+}
+
+beforeEach(() => {
+  fakes.reset()
+  const use = fakes.Database.use
+  jest.spyOn(fakes.Database, "use").mockImplementation((db: string) => ({ ...use(db), view } as any))
+})
+afterEach(() => jest.restoreAllMocks())
+
+test("an unknown time zone is refused", async () => {
+  const res = await request("GET", "/participant/U1/sensor_event/aggregate?origin=lamp.steps&tz=Mars/Olympus_Mons", {
+    authorization: root,
+  })
+  expect(res.status).toBe(400)
+  expect(res.body).toEqual({ error: "400.invalid-time-zone" })
+})
+
+test("buckets are aligned to midnight in the requested time zone", async () => {
+  const output = await SensorEventRepository._aggregate(
+    "U1",
+    "lamp.steps",
+    undefined,
+    undefined,
+    day,
+    "value",
+    "-05:00"
+  )
+  expect(output).toEqual([
+    { timestamp: jan1 - day + 5 * 60 * 60 * 1000, count: 1, sum: 10, mean: 10, min: 10, max: 10 },
+    { timestamp: jan1 + 5 * 60 * 60 * 1000, count: 2, sum: 50, mean: 25, min: 20, max: 30 },
+  ])
+})
+
+test("buckets are aligned to midnight in the participant's time zone unless another is requested", async () => {
+  fakes.respond("FROM LAMP_Aux.dbo.OOLAttachment", () => [{ Value: JSON.stringify("America/New_York") }])
+  const output = await SensorEventRepository._aggregate("U1", "lamp.steps", undefined, undefined, day)
+  expect(output.map((x) => x.count)).toEqual([1, 2])
+})
+
+test("buckets are clipped to the requested range", async () => {
+  const output = await SensorEventRepository._aggregate(
+    "U1",
+    "lamp.steps",
+    jan1 + 5 * 60 * 60 * 1000,
+    jan1 + 7 * 60 * 60 * 1000,
+    day,
+    "value",
+    "UTC"
+  )
+  expect(output).toEqual([{ timestamp: jan1, count: 1, sum: 20, mean: 20, min: 20, max: 20 }])
+})
@@ -0,0 +1,52 @@
+jest.mock("../src/app", () => require("./fakes"))
+import * as fakes from "./fakes"
+import { request, basic } from "./http"
+import { TypeRepository } from "../src/repository/TypeRepository"
+import { ResearcherRepository } from "../src/repository/ResearcherRepository"
+import { StudyRepository } from "../src/repository/StudyRepository"
+import { SensorRepository } from "../src/repository/SensorRepository"
+
+// A researcher with a study, and a participant in it who signs in with their own credentials.
+const R1 = ResearcherRepository._pack_id({ admin_id: 1 })
+const S1 = StudyRepository._pack_id({ admin_id: 1, study_id: 1 })
+const P1 = "U1"
+const X1 = SensorRepository._pack_id({ sensor_id: "x1" })
+const parents: { [id: string]: { [type: string]: string } } = {
+  [S1]: { Researcher: R1 },
+  [P1]: { Study: S1, Researcher: R1 },
+  [X1]: { Study: S1, Researcher: R1 },
+}
+const participant = basic(P1, "secret")
+
+beforeEach(() => {
+  fakes.reset()
+  fakes.respond("SELECT Password", () => [{ Password: "plain$secret" }])
+  jest
+    .spyOn(TypeRepository, "_parent_id")
+    .mockImplementation(async (id: string, type: string) => parents[id]?.[type] as string)
+})
+afterEach(() => jest.restoreAllMocks())
+
+describe("a participant may not change the study it belongs to", () => {
+  test.each([
+    ["rename", "PUT", `/study/${S1}`, { name: "renamed" }],
+    ["delete", "DELETE", `/study/${S1}`, undefined],
+    ["add a study to its researcher", "POST", `/researcher/${R1}/study`, { name: "new" }],
+  ])("%s", async (_, method, path, body) => {
+    const res = await request(method, path, { authorization: participant, body })
+    expect(res.status).toBe(403)
+    expect(res.body).toEqual({ error: "403.security-context-out-of-scope" })
+  })
+})
+
+describe("a participant may not change the sensors that collect its data", () => {
+  test.each([
+    ["add one", "POST", `/study/${S1}/sensor`, { name: "gps", spec: "lamp.gps" }],
+    ["reconfigure one", "PUT", `/sensor/${X1}`, { settings: { enabled: false } }],
+    ["delete one", "DELETE", `/sensor/${X1}`, undefined],
+  ])("%s", async (_, method, path, body) => {
+    const res = await request(method, path, { authorization: participant, body })
+    expect(res.status).toBe(403)
+    expect(res.body).toEqual({ error: "403.security-context-out-of-scope" })
+  })
+})
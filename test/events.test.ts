@@ -0,0 +1,82 @@
+jest.mock("../src/app", () => require("./fakes"))
+import * as fakes from "./fakes"
+import "../src/service" // Loads the repositories in the order the server does.
+import { ResearcherRepository } from "../src/repository/ResearcherRepository"
+import { StudyRepository } from "../src/repository/StudyRepository"
+import { SensorEventRepository } from "../src/repository/SensorEventRepository"
+import { ActivityEventRepository } from "../src/repository/ActivityEventRepository"
+
+// Researcher 2 has 250 Participants, each with a single event; events are parented by their Participant.
+const researcher = ResearcherRepository._pack_id({ admin_id: 2 })
+const study = StudyRepository._pack_id({ admin_id: 2, study_id: 0 })
+const participants = Array.from({ length: 250 }, (_, i) => `U${1000 + i}`)
+const events = participants.map((x, i) => ({ "#parent": x, timestamp: i, sensor: "lamp.steps", data: {} }))
+
+// A CouchDB `find` understanding only the `#parent` part of a selector, with the bookmark as an offset.
+const selectors: any[] = []
+const find = async (query: any): Promise<{ docs: any[]; bookmark: string }> => {
+  selectors.push(query.selector)
+  const parent = query.selector["#parent"]
+  const matches = events.filter((x) =>
+    parent === undefined
+      ? true
+      : typeof parent === "string"
+      ? x["#parent"] === parent
+      : parent.$in.includes(x["#parent"])
+  )
+  const offset = Number(query.bookmark ?? 0)
+  return { docs: matches.slice(offset, offset + query.limit), bookmark: String(offset + query.limit) }
+}
+
+beforeEach(() => {
+  fakes.reset()
+  selectors.splice(0)
+  fakes.respond("FROM Users", (query) => (query.inputs.admin_id === 2 ? [participants.map((id) => ({ id }))] : [[]]))
+  const use = fakes.Database.use
+  jest
+    .spyOn(fakes.Database, "use")
+    .mockImplementation((db: string) => ({ ...use(db), find, baseView: async () => ({ rows: [] }) } as any))
+})
+afterEach(() => jest.restoreAllMocks())
+
+const _all = async (page: (cursor?: string) => Promise<{ data: any[]; cursor: string | null }>): Promise<any[]> => {
+  const output: any[] = []
+  let cursor: string | undefined
+  do {
+    const result = await page(cursor)
+    output.push(...result.data)
+    cursor = result.cursor ?? undefined
+  } while (cursor !== undefined)
+  return output
+}
+
+describe("reading the sensor events", () => {
+  test.each([
+    ["a researcher", researcher],
+    ["a study", study],
+  ])("of %s reads those of each of its participants", async (_, id) => {
+    const output = await _all((cursor) => SensorEventRepository._page(id, undefined, undefined, undefined, 40, cursor))
+    expect(output.map((x) => x.timestamp).sort((a, b) => a - b)).toEqual(events.map((x) => x.timestamp))
+    expect(selectors.every((x) => x["#parent"].$in.length <= 100)).toBe(true)
+  })
+
+  test("of a researcher without participants reads nothing", async () => {
+    const other = ResearcherRepository._pack_id({ admin_id: 3 })
+    expect(await SensorEventRepository._page(other)).toEqual({ data: [], cursor: null })
+    expect(selectors).toEqual([])
+  })
+
+  test("of a participant reads only its own", async () => {
+    const output = await SensorEventRepository._select(participants[7])
+    expect(output.map((x) => x.timestamp)).toEqual([7])
+  })
+})
+
+describe("reading the activity events", () => {
+  test("of a researcher reads those of each of its participants", async () => {
+    const output = await _all((cursor) =>
+      ActivityEventRepository._page(researcher, undefined, undefined, undefined, 1000, cursor)
+    )
+    expect(output).toHaveLength(events.length)
+  })
+})
@@ -0,0 +1,89 @@
+/**
+ * Stand-ins for the exports of `src/app`, so that the routes can be exercised without a SQL Server or
+ * CouchDB to connect to, and without starting the server. Tests mock `src/app` with this module:
+ *
+ *   jest.mock("../src/app", () => require("./fakes"))
+ */
+
+/**
+ * A SQL query as it was sent, along with the values bound to its parameters.
+ */
+export interface Query {
+  text: string
+  inputs: { [name: string]: any }
+}
+
+/**
+ * Every query sent since the last `reset`, in order.
+ */
+export const queries: Query[] = []
+
+/**
+ * Answer queries whose text contains a fragment, in the order they were added. Unanswered queries get
+ * an empty result.
+ */
+const _responses: { fragment: string; result: (query: Query) => any[] }[] = []
+export const respond = (fragment: string, result: (query: Query) => any[]): void => {
+  _responses.push({ fragment, result })
+}
+
+/**
+ * Documents to answer `get` with, by database and `_id`.
+ */
+export const documents: { [db: string]: { [id: string]: any } } = {}
+
+export const reset = (): void => {
+  queries.splice(0)
+  _responses.splice(0)
+  for (const db of Object.keys(documents)) delete documents[db]
+  documents.root = { "#master_config": { data: { password: "plain$root-secret" } } }
+}
+reset()
+
+export const SQL = {
+  request: () => {
+    const inputs: { [name: string]: any } = {}
+    const request = {
+      input: (name: string, ...args: any[]) => {
+        inputs[name] = args[args.length - 1]
+        return request
+      },
+      query: async (text: string) => {
+        const query = { text, inputs }
+        queries.push(query)
+        const response = _responses.find((x) => text.includes(x.fragment))
+        const recordset = response?.result(query) ?? []
+        return { recordset, rowsAffected: [recordset.length] }
+      },
+    }
+    return request
+  },
+}
+
+export const Database = {
+  db: { create: async () => ({}) },
+  use: (db: string) => ({
+    get: async (id: string) => {
+      const doc = documents[db]?.[id]
+      if (doc === undefined) throw Object.assign(new Error("not_found"), { statusCode: 404 })
+      return doc
+    },
+    list: async () => ({ rows: [] }),
+    find: async () => ({ docs: [] }),
+    bulk: async () => [],
+    insert: async () => ({ ok: true }),
+    destroy: async () => ({ ok: true }),
+    createIndex: async () => ({}),
+  }),
+}
+
+// Values are "encrypted" and "hashed" in the clear, so that tests can see exactly what is stored and bound.
+export const Root = { id: "root", password: "" }
+export const Keyring: { id: string; key: Buffer }[] = []
+export const Encrypt = (data: string): string | undefined => data
+export const Decrypt = (data: string): string | undefined => data
+export const Ciphertexts = (data: string): string[] => [data]
+export const Current = (): boolean => true
+export const Hash = async (secret: string): Promise<string> => `plain$${secret}`
+export const Hashed = (data?: string | null): boolean => !!data && data.startsWith("plain$")
+export const Verify = async (secret: string, data?: string | null): Promise<boolean> => data === `plain$${secret}`
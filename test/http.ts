@@ -0,0 +1,65 @@
+import http from "http"
+import express from "express"
+import bodyParser from "body-parser"
+import API from "../src/service"
+
+/**
+ * The API routes, as mounted by `src/app`.
+ */
+export const app = express()
+app.set("trust proxy", "loopback") // as `src/app` does by default, where the tests' requests come from
+app.use(bodyParser.json({ strict: false }))
+app.use("/", API)
+
+/**
+ * The `Authorization` header value for an access and secret key pair.
+ */
+export const basic = (access_key: string, secret_key: string): string =>
+  `Basic ${Buffer.from(`${access_key}:${secret_key}`).toString("base64")}`
+
+export const root = basic("root", "root-secret")
+
+/**
+ * Send a request to the API routes and wait for the whole response.
+ */
+export const request = (
+  method: string,
+  path: string,
+  options: { authorization?: string; accept?: string; forwarded_for?: string; body?: any } = {}
+): Promise<{ status: number; headers: http.IncomingHttpHeaders; body: any }> =>
+  new Promise((resolve, reject) => {
+    const server = app.listen(0, () => {
+      const { port } = server.address() as any
+      const req = http.request(
+        {
+          port,
+          method,
+          path,
+          headers: {
+            "Content-Type": "application/json",
+            ...(options.authorization !== undefined ? { Authorization: options.authorization } : {}),
+            ...(options.accept !== undefined ? { Accept: options.accept } : {}),
+            ...(options.forwarded_for !== undefined ? { "X-Forwarded-For": options.forwarded_for } : {}),
+          },
+        },
+        (res) => {
+          let data = ""
+          res.on("data", (chunk) => (data += chunk))
+          res.on("end", () => {
+            server.close()
+            const json = (res.headers["content-type"] ?? "").startsWith("application/json")
+            resolve({
+              status: res.statusCode ?? 0,
+              headers: res.headers,
+              body: data.length === 0 ? undefined : json ? JSON.parse(data) : data,
+            })
+          })
+        }
+      )
+      req.on("error", (e) => {
+        server.close()
+        reject(e)
+      })
+      req.end(options.body !== undefined ? JSON.stringify(options.body) : undefined)
+    })
+  })
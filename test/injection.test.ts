@@ -0,0 +1,63 @@
+jest.mock("../src/app", () => require("./fakes"))
+import * as fakes from "./fakes"
+import { request, basic, root } from "./http"
+import { ResearcherRepository } from "../src/repository/ResearcherRepository"
+
+// Values that would end the statement they were spliced into and run one of their own.
+const payloads = ["x' OR '1'='1';--", "'; DROP TABLE Users;--", "x]; DELETE FROM Admin;--"]
+
+// Every query sent must carry the payload only as the value of a bound parameter.
+const expectBound = (payload: string): void => {
+  expect(fakes.queries.length).toBeGreaterThan(0)
+  for (const query of fakes.queries) expect(query.text).not.toContain(payload)
+  const values = ([] as any[]).concat(...fakes.queries.map((x) => Object.values(x.inputs)))
+  expect(values.some((x) => String(x).includes(payload))).toBe(true)
+}
+
+beforeEach(() => fakes.reset())
+
+describe.each(payloads)("with the payload %s", (payload) => {
+  test("as an access key", async () => {
+    const res = await request("GET", "/type/me/parent", { authorization: basic(payload, "secret") })
+    expect(res.status).toBe(403)
+    expectBound(payload)
+  })
+
+  test("as a path ID", async () => {
+    const path = `/type/${encodeURIComponent(payload)}/attachment/${encodeURIComponent(payload)}/me`
+    const res = await request("PUT", path, { authorization: root, body: { value: 1 } })
+    expect(res.status).toBe(200)
+    expectBound(payload)
+    expect(fakes.queries[0].inputs).toMatchObject({ id: payload, key: payload })
+  })
+
+  test("as a credential origin", async () => {
+    const researcher_id = ResearcherRepository._pack_id({ admin_id: 1 })
+    const res = await request("POST", `/type/${encodeURIComponent(payload)}/credential`, {
+      authorization: root,
+      body: { origin: payload, access_key: payload, secret_key: "secret" },
+    })
+    expect(res.status).toBe(400)
+    expect(fakes.queries.every((x) => !x.text.includes(payload))).toBe(true)
+
+    fakes.respond("INSERT INTO LAMP_Aux.dbo.OOLAttachment", () => [{}])
+    const created = await request("POST", `/type/${researcher_id}/credential`, {
+      authorization: root,
+      body: { origin: researcher_id, access_key: payload, secret_key: "secret", description: payload },
+    })
+    expect(created.status).toBe(200)
+    expectBound(payload)
+  })
+
+  test("as a study name", async () => {
+    fakes.respond("INSERT INTO LAMP_Aux.dbo.Study", () => [{ id: 1 }])
+    const researcher_id = ResearcherRepository._pack_id({ admin_id: 1 })
+    const res = await request("POST", `/researcher/${researcher_id}/study`, {
+      authorization: root,
+      body: { name: payload },
+    })
+    expect(res.status).toBe(200)
+    expectBound(payload)
+    expect(fakes.queries.find((x) => x.text.includes("INSERT INTO LAMP_Aux.dbo.Study"))!.inputs.name).toBe(payload)
+  })
+})
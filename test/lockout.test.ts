@@ -0,0 +1,59 @@
+jest.mock("../src/app", () => require("./fakes"))
+import * as fakes from "./fakes"
+import { request, basic, root } from "./http"
+import { LockoutRepository } from "../src/repository/LockoutRepository"
+
+beforeEach(async () => {
+  fakes.reset()
+  await LockoutRepository._delete()
+})
+
+// Lock out the access key by failing as many times as it takes.
+const lockout = async (access_key: string): Promise<void> => {
+  for (let i = 0; i < 10; i++) await LockoutRepository._failure(access_key)
+}
+
+// Lock out an address, by failing with as many different access keys as it takes.
+const lockout_ip = async (ip: string): Promise<void> => {
+  for (let i = 0; i < 50; i++) await LockoutRepository._failure(`someone-${i}`, ip)
+}
+
+test.each([
+  ["a route", "GET", "/type/me/parent", { authorization: basic("someone", "secret") }],
+  [
+    "the token route",
+    "POST",
+    "/token",
+    { body: { grant_type: "password", access_key: "someone", secret_key: "secret" } },
+  ],
+])("a locked out access key is told when to retry through %s", async (_, method, path, options) => {
+  await lockout("someone")
+  const res = await request(method, path, options)
+  expect(res.status).toBe(429)
+  expect(Number(res.headers["retry-after"])).toBeGreaterThan(0)
+})
+
+test("an access key that isn't locked out is not told to retry", async () => {
+  const res = await request("GET", "/type/me/parent", { authorization: basic("someone", "secret") })
+  expect(res.status).toBe(403)
+  expect(res.headers["retry-after"]).toBeUndefined()
+})
+
+test("clients behind a reverse proxy are locked out by their own address", async () => {
+  await lockout_ip("203.0.113.1")
+  const options = { authorization: basic("someone", "secret") }
+  expect((await request("GET", "/type/me/parent", { ...options, forwarded_for: "203.0.113.1" })).status).toBe(429)
+  expect((await request("GET", "/type/me/parent", { ...options, forwarded_for: "203.0.113.2" })).status).toBe(403)
+})
+
+test("root may still sign in to clear a lockout of its address", async () => {
+  await lockout_ip("203.0.113.1")
+  const res = await request("DELETE", "/lockout", { authorization: root, forwarded_for: "203.0.113.1" })
+  expect(res.status).toBe(200)
+  expect((await LockoutRepository._select()).length).toBe(0)
+})
+
+test("failed attempts to sign in as root are not counted against its address", async () => {
+  for (let i = 0; i < 60; i++) await request("GET", "/lockout", { authorization: basic("root", "wrong") })
+  expect((await LockoutRepository._select()).map((x) => x.key)).toEqual(["access_key:root"])
+})
@@ -0,0 +1,288 @@
+jest.mock("../src/app", () => require("./fakes"))
+import * as fakes from "./fakes"
+import "../src/service" // Loads the repositories in the order the server does.
+import { Request } from "express"
+import { Relation, _allows, _in_scope } from "../src/service/Policy"
+import { _verify } from "../src/service/Security"
+import { TokenRepository } from "../src/repository/TokenRepository"
+import { TypeRepository } from "../src/repository/TypeRepository"
+import { ResearcherRepository } from "../src/repository/ResearcherRepository"
+import { StudyRepository } from "../src/repository/StudyRepository"
+import { ActivityRepository } from "../src/repository/ActivityRepository"
+import { SensorRepository } from "../src/repository/SensorRepository"
+import { StudyMemberRepository, StudyMember_roles } from "../src/repository/StudyMemberRepository"
+import { StudyRole } from "../src/model/StudyMember"
+
+// Two researchers and their studies, with a participant or activity in each study:
+//
+//   R1 ─┬─ S1 ─┬─ P1
+//       │      ├─ P2
+//       │      ├─ A1
+//       │      └─ SN1 (a sensor)
+//       └─ S2 ─── P3
+//   R2 (a member of the team of S1, in whatever role a test gives them)
+//   R3 (no relation to anything)
+const R1 = ResearcherRepository._pack_id({ admin_id: 1 })
+const R2 = ResearcherRepository._pack_id({ admin_id: 2 })
+const R3 = ResearcherRepository._pack_id({ admin_id: 3 })
+const S1 = StudyRepository._pack_id({ admin_id: 1, study_id: 1 })
+const S2 = StudyRepository._pack_id({ admin_id: 1, study_id: 2 })
+const P1 = "U1"
+const P2 = "U2"
+const P3 = "U3"
+const A1 = ActivityRepository._pack_id({ survey_id: 1 })
+const SN1 = SensorRepository._pack_id({ sensor_id: "sn1" })
+const names: { [id: string]: string } = { [R1]: "R1", [R2]: "R2", [R3]: "R3", [S1]: "S1", [S2]: "S2" }
+Object.assign(names, { [P1]: "P1", [P2]: "P2", [P3]: "P3", [A1]: "A1" })
+const identities = [R1, R3, S1, S2, P1, P2, P3, A1]
+
+const parents: { [id: string]: { [type: string]: string } } = {
+  [S1]: { Researcher: R1 },
+  [S2]: { Researcher: R1 },
+  [P1]: { Study: S1, Researcher: R1 },
+  [P2]: { Study: S1, Researcher: R1 },
+  [P3]: { Study: S2, Researcher: R1 },
+  [A1]: { Study: S1, Researcher: R1 },
+  [SN1]: { Study: S1, Researcher: R1 },
+}
+
+// Which relations hold between each actor and target, spelled out rather than derived from `parents`.
+const holds: { [relation in Relation]: [string, string][] } = {
+  self: identities.map((x) => [x, x] as [string, string]),
+  parent: [
+    [R1, S1],
+    [R1, S2],
+    [R1, P1],
+    [R1, P2],
+    [R1, P3],
+    [R1, A1],
+    [S1, P1],
+    [S1, P2],
+    [S1, A1],
+    [S2, P3],
+  ],
+  sibling: [
+    // Studies belong to a Researcher, as does anything within them.
+    ...[S1, S2, P1, P2, P3, A1].map((x) => [x, S1] as [string, string]),
+    ...[S1, S2, P1, P2, P3, A1].map((x) => [x, S2] as [string, string]),
+    // Participants and activities belong to a Study.
+    ...[P1, P2, A1].map((x) => [x, P1] as [string, string]),
+    ...[P1, P2, A1].map((x) => [x, P2] as [string, string]),
+    ...[P1, P2, A1].map((x) => [x, A1] as [string, string]),
+    [P3, P3],
+  ],
+}
+
+// The access levels each relation allows: a sibling may only read what it shares a parent with.
+const grants: { [relation in Relation]: string[] } = {
+  self: ["read", "write", "admin"],
+  parent: ["read", "write", "admin"],
+  sibling: ["read"],
+}
+
+// Every non-empty combination of relations a route may accept.
+const relations: Relation[] = ["self", "sibling", "parent"]
+const combinations: Relation[][] = [1, 2, 3, 4, 5, 6, 7].map((n) => relations.filter((_, idx) => n & (1 << idx)))
+
+// Every scope a route may declare.
+const resources = ["study", "participant", "activity", "activity_event", "sensor", "sensor_event"]
+const others = ["researcher", "credential", "type", "activity_spec", "sensor_spec"]
+const levels = ["read", "write", "admin"]
+const scopes = [...resources, ...others].reduce((all, x) => [...all, ...levels.map((y) => `${x}:${y}`)], [] as string[])
+
+let roles: { [study_id: string]: { [researcher_id: string]: StudyRole } } = {}
+beforeEach(() => {
+  fakes.reset()
+  roles = {}
+  jest
+    .spyOn(TypeRepository, "_parent_id")
+    .mockImplementation(async (id: string, type: string) => parents[id]?.[type] as string)
+  jest
+    .spyOn(StudyMemberRepository, "_role")
+    .mockImplementation(async (study_id: string, researcher_id: string) => roles[study_id]?.[researcher_id])
+})
+afterEach(() => jest.restoreAllMocks())
+
+// A request whose response collects the fields to redact, as `_verify` would pass.
+const request = (): Request => ({ res: { locals: {} } } as any)
+
+describe("_allows", () => {
+  const cases = combinations.reduce(
+    (all, accepts) =>
+      all.concat(
+        ...levels.map((level) =>
+          ([] as any[][]).concat(
+            ...identities.map((actor) =>
+              identities.map((target) => {
+                const allowed = accepts.some(
+                  (x) => grants[x].includes(level) && holds[x].some(([a, t]) => a === actor && t === target)
+                )
+                return [accepts.join("|"), names[actor], level, names[target], allowed, actor, target]
+              })
+            )
+          )
+        )
+      ),
+    [] as any[][]
+  )
+  test.each(cases)("accepting %s, %s to %s %s is %s", async (accepts, _, level, __, allowed, actor, target) => {
+    expect(await _allows(actor, accepts.split("|"), target, `type:${level}`)).toBe(allowed)
+  })
+
+  // A participant shares its researcher with every one of their studies, and its study with its sensors.
+  test.each([
+    ["study", S1],
+    ["study", S2],
+    ["sensor", SN1],
+    ["participant", P2],
+  ])("a participant may read but not change a %s it is a sibling of", async (resource, target) => {
+    const accepts: Relation[] = ["self", "sibling", "parent"]
+    expect(await _allows(P1, accepts, target, `${resource}:read`)).toBe(true)
+    expect(await _allows(P1, accepts, target, `${resource}:write`)).toBe(false)
+    expect(await _allows(P1, accepts, target, `${resource}:admin`)).toBe(false)
+  })
+
+  test("a sibling may not act without a declared scope", async () => {
+    expect(await _allows(P1, ["sibling"], P2)).toBe(false)
+  })
+
+  test.each(identities.map((x) => [names[x], x]))("%s may not act without a target", async (_, actor) => {
+    expect(await _allows(actor, relations, undefined, "type:read")).toBe(false)
+  })
+
+  test.each(identities.map((x) => [names[x], x]))("root may act on %s, or without a target", async (_, target) => {
+    expect(await _allows("root", [], target)).toBe(true)
+    expect(await _allows("root", [], undefined)).toBe(true)
+  })
+})
+
+describe("_allows through a team role", () => {
+  const members: (StudyRole | undefined)[] = [undefined, "owner", "coordinator", "clinician", "analyst"]
+  const targets = [S1, P1, P2, A1, S2, P3, R1]
+  const cases = members.reduce(
+    (all, role) =>
+      all.concat(
+        ...targets.map((target) =>
+          scopes.map((scope) => {
+            const [resource, level] = scope.split(":")
+            const allowed =
+              role !== undefined &&
+              [S1, P1, P2, A1].includes(target) &&
+              resources.includes(resource) &&
+              levels.indexOf(level) <= levels.indexOf(StudyMember_roles[role].access)
+            return [role ?? "no role", names[target], scope, allowed, role, target] as any[]
+          })
+        )
+      ),
+    [] as any[][]
+  )
+  test.each(cases)("with %s on S1, R2 on %s for %s is %s", async (_, __, scope, allowed, role, target) => {
+    if (role !== undefined) roles[S1] = { [R2]: role }
+    const req = request()
+    expect(await _allows(R2, ["self", "sibling", "parent"], target, scope, req)).toBe(allowed)
+    expect(req.res!.locals.redact).toEqual(allowed ? StudyMember_roles[role as StudyRole].redact : undefined)
+  })
+
+  test.each([S1, S2, P1, P2, P3, A1].map((x) => [names[x], x]))(
+    "%s has no team role even if listed as a member",
+    async (_, actor) => {
+      roles[S1] = { [actor]: "owner" }
+      expect(await _allows(actor, [], P1, "participant:read", request())).toBe(false)
+    }
+  )
+
+  test("a team role grants nothing without a declared scope", async () => {
+    roles[S1] = { [R2]: "owner" }
+    expect(await _allows(R2, [], P1, undefined, request())).toBe(false)
+  })
+
+  test("an analyst's redactions accumulate across the accesses of a request", async () => {
+    roles[S1] = { [R2]: "analyst" }
+    roles[S2] = { [R2]: "clinician" }
+    const req = request()
+    await _allows(R2, [], P1, "participant:read", req)
+    await _allows(R2, [], P3, "participant:read", req)
+    expect(req.res!.locals.redact).toEqual(StudyMember_roles.analyst.redact)
+  })
+
+  test("an analyst does not see contact fields or location coordinates", () => {
+    expect(StudyMember_roles.analyst.redact).toEqual(
+      expect.arrayContaining(["email", "address", "emergency_contact", "helpline", "latitude", "longitude"])
+    )
+    for (const role of ["owner", "coordinator", "clinician"] as StudyRole[])
+      expect(StudyMember_roles[role].redact).toEqual([])
+  })
+})
+
+describe("_in_scope", () => {
+  const cases = scopes.reduce(
+    (all, granted) =>
+      all.concat(
+        scopes.map((scope) => {
+          const allowed =
+            granted.split(":")[0] === scope.split(":")[0] &&
+            levels.indexOf(granted.split(":")[1]) >= levels.indexOf(scope.split(":")[1])
+          return [granted, scope, allowed]
+        })
+      ),
+    [] as any[][]
+  )
+  test.each(cases)("granted %s, %s is %s", (granted, scope, allowed) => {
+    expect(_in_scope([granted], scope)).toBe(allowed)
+  })
+
+  test("any of several granted scopes may apply", () => {
+    expect(_in_scope(["study:read", "participant:admin"], "participant:write")).toBe(true)
+    expect(_in_scope(["study:read", "participant:read"], "participant:write")).toBe(false)
+  })
+
+  test("nothing is in scope if nothing is granted", () => {
+    for (const scope of scopes) expect(_in_scope([], scope)).toBe(false)
+  })
+
+  test("an unknown level grants nothing", () => {
+    expect(_in_scope(["study:owner"], "study:read")).toBe(false)
+  })
+})
+
+describe("a cosign token", () => {
+  const TOKEN_KEY = process.env.TOKEN_KEY
+  beforeAll(() => (process.env.TOKEN_KEY = "00112233445566778899aabbccddeeff"))
+  afterAll(() => {
+    if (TOKEN_KEY === undefined) delete process.env.TOKEN_KEY
+    else process.env.TOKEN_KEY = TOKEN_KEY
+  })
+  const cosign = (sub: string, aud: string): string => "LAMP" + TokenRepository._cosign(sub, aud, 60)
+
+  // The automation acts as its originator, but only on the object it was run for or anything within it.
+  const cases = [R1, S1].reduce(
+    (all, aud) =>
+      all.concat(
+        identities.map((target) => {
+          const within = target === aud || holds.parent.some(([a, t]) => a === aud && t === target)
+          return [names[aud], names[target], within, aud, target]
+        })
+      ),
+    [] as any[][]
+  )
+  test.each(cases)("from R1 for %s may act on %s: %s", async (_, __, within, aud, target) => {
+    const verify = _verify(cosign(R1, aud), ["self", "sibling", "parent"], target, "type:read")
+    if (within) await expect(verify).resolves.toBe(target)
+    else await expect(verify).rejects.toThrow("403.cosign-token-out-of-scope")
+  })
+
+  test("stands in for the object it was run for", async () => {
+    expect(await _verify(cosign(R1, P1), ["self", "sibling", "parent"], "me", "type:read")).toBe(P1)
+  })
+
+  test("may not act beyond what its originator may", async () => {
+    await expect(_verify(cosign(R3, P1), ["self", "sibling", "parent"], P1, "type:read")).rejects.toThrow(
+      "403.security-context-out-of-scope"
+    )
+  })
+
+  test("never acts as root", async () => {
+    await expect(_verify(cosign("root", P1), [], undefined)).rejects.toThrow("403.security-context-requires-root-scope")
+    await expect(_verify(cosign("root", P1), [], P2, "type:read")).rejects.toThrow("403.cosign-token-out-of-scope")
+  })
+})
@@ -0,0 +1,150 @@
+jest.mock("../src/app", () => require("./fakes"))
+import * as fakes from "./fakes"
+import { request, basic } from "./http"
+import { ResearcherRepository } from "../src/repository/ResearcherRepository"
+import { StudyRepository } from "../src/repository/StudyRepository"
+import { SensorEventRepository } from "../src/repository/SensorEventRepository"
+import { TypeRepository } from "../src/repository/TypeRepository"
+
+const owner_id = ResearcherRepository._pack_id({ admin_id: 1 })
+const member_id = ResearcherRepository._pack_id({ admin_id: 2 })
+const study_id = StudyRepository._pack_id({ admin_id: 1, study_id: 3 })
+const member = basic(member_id, "secret")
+
+// Sign the member in, and give them a role on the team of the `Study`. There is nothing in the `Study`.
+const join = (role: string): void => {
+  fakes.respond("IsDeleted = 0 AND AdminID = @admin_id;", () => [{ AdminID: 2, Password: "plain$secret" }])
+  fakes.respond("FROM LAMP_Aux.dbo.StudyMember", () => [{ role }])
+}
+
+beforeEach(() => fakes.reset())
+afterEach(() => jest.restoreAllMocks())
+
+test("a team member whose role redacts fields may not read through a query", async () => {
+  join("analyst")
+  const res = await request("POST", "/", {
+    authorization: member,
+    body: `$Study_view('${study_id}').{ "contact": email }`,
+  })
+  expect(res.status).toBe(403)
+  expect(res.body).toEqual({ error: "403.query-not-allowed-for-role" })
+})
+
+test("a team member whose role redacts nothing may read through a query", async () => {
+  join("clinician")
+  const res = await request("POST", "/", { authorization: member, body: `$Study_view('${study_id}')` })
+  expect(res.status).toBe(200)
+})
+
+test("the owner of a study may read through a query", async () => {
+  fakes.respond("IsDeleted = 0 AND AdminID = @admin_id;", () => [{ AdminID: 1, Password: "plain$secret" }])
+  const res = await request("POST", "/", {
+    authorization: basic(owner_id, "secret"),
+    body: `$Study_view('${study_id}')`,
+  })
+  expect(res.status).toBe(200)
+})
+
+describe("an analyst", () => {
+  const events = [
+    { timestamp: 1, sensor: "lamp.gps", data: { latitude: 42.36, longitude: -71.06, altitude: 10 } },
+    { timestamp: 2, sensor: "lamp.steps", data: { value: 12, units: "steps" } },
+  ]
+  beforeEach(() => {
+    join("analyst")
+    jest.spyOn(SensorEventRepository, "_page").mockResolvedValue({ data: events, cursor: null } as any)
+  })
+
+  test("does not see the coordinates of location sensor events", async () => {
+    const res = await request("GET", `/study/${study_id}/sensor_event`, { authorization: member })
+    expect(res.status).toBe(200)
+    expect(res.body.data).toEqual([
+      { timestamp: 1, sensor: "lamp.gps", data: {} },
+      { timestamp: 2, sensor: "lamp.steps", data: { value: 12, units: "steps" } },
+    ])
+  })
+
+  test("does not see the coordinates of location sensor events in an export", async () => {
+    const ndjson = await request("GET", `/study/${study_id}/sensor_event`, {
+      authorization: member,
+      accept: "application/x-ndjson",
+    })
+    expect(ndjson.body).not.toMatch(/latitude|longitude|altitude|42\.36/)
+    expect(ndjson.body).toMatch(/"value":12/)
+
+    const csv = await request("GET", `/study/${study_id}/sensor_event?origin=lamp.gps,lamp.steps`, {
+      authorization: member,
+      accept: "text/csv",
+    })
+    expect(csv.body.split("\n")[0]).toBe("timestamp,sensor,value,units")
+    expect(csv.body).not.toMatch(/42\.36/)
+  })
+})
+
+describe("an analyst may not narrow down a redacted field", () => {
+  const participant_id = "U1"
+  beforeEach(() => {
+    join("analyst")
+    jest
+      .spyOn(TypeRepository, "_parent_id")
+      .mockImplementation(async (id: string, type: string) =>
+        id === participant_id ? (type === "Study" ? study_id : owner_id) : (undefined as any)
+      )
+    jest.spyOn(SensorEventRepository, "_page").mockResolvedValue({ data: [], cursor: null } as any)
+    jest.spyOn(SensorEventRepository, "_aggregate").mockResolvedValue([])
+  })
+
+  test.each(["latitude", "longitude", "location.altitude"])("by aggregating %s", async (field) => {
+    const res = await request(
+      "GET",
+      `/participant/${participant_id}/sensor_event/aggregate?origin=lamp.gps&field=${field}&fn=max`,
+      { authorization: member }
+    )
+    expect(res.status).toBe(403)
+    expect(res.body).toEqual({ error: "403.field-not-allowed-for-role" })
+  })
+
+  test.each([
+    ["a participant", `/participant/U1/sensor_event`],
+    ["a study", `/study/${study_id}/sensor_event`],
+  ])("by filtering the events of %s", async (_, path) => {
+    const data = encodeURIComponent(JSON.stringify({ value: { $gt: 0 }, latitude: { $gt: 42, $lt: 43 } }))
+    for (const accept of [undefined, "application/x-ndjson", "text/csv"]) {
+      const res = await request("GET", `${path}?data=${data}`, { authorization: member, accept })
+      expect(res.status).toBe(403)
+      expect(res.body).toEqual({ error: "403.field-not-allowed-for-role" })
+    }
+  })
+
+  test("but may aggregate or filter on any other field", async () => {
+    const aggregate = await request(
+      "GET",
+      `/participant/${participant_id}/sensor_event/aggregate?origin=lamp.steps&field=value&fn=sum`,
+      { authorization: member }
+    )
+    expect(aggregate.status).toBe(200)
+    const data = encodeURIComponent(JSON.stringify({ value: { $gt: 0 } }))
+    const filtered = await request("GET", `/study/${study_id}/sensor_event?data=${data}`, { authorization: member })
+    expect(filtered.status).toBe(200)
+  })
+})
+
+describe("a team member", () => {
+  beforeEach(() => join("owner"))
+
+  test.each([
+    ["the credentials of a study", "GET", `/type/${study_id}/credential`],
+    ["a credential for a study", "POST", `/type/${study_id}/credential`],
+    ["the attachments of a study", "GET", `/type/${study_id}/attachment`],
+    ["the audit log of the study's owner", "GET", `/researcher/${owner_id}/audit`],
+    ["the lockouts", "GET", "/lockout"],
+  ])("may not act on %s through their role", async (_, method, path) => {
+    const res = await request(method, path, { authorization: member, body: method === "POST" ? {} : undefined })
+    expect(res.status).toBe(403)
+  })
+
+  test("may act on the data of a study through their role", async () => {
+    const res = await request("GET", `/study/${study_id}/sensor_event`, { authorization: member })
+    expect(res.status).toBe(200)
+  })
+})
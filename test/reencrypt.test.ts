@@ -0,0 +1,22 @@
+jest.mock("../src/app", () => require("./fakes"))
+import * as fakes from "./fakes"
+import { Reencrypt } from "../src/utils/Reencrypt"
+
+beforeEach(() => {
+  fakes.reset()
+  fakes.Keyring.splice(0, fakes.Keyring.length, { id: "k1", key: Buffer.alloc(32) })
+})
+afterEach(() => fakes.Keyring.splice(0))
+
+test("legacy passwords are hashed rather than encrypted again", async () => {
+  fakes.respond("FROM Admin", (query) => (query.inputs.last === 0 ? [{ id: 1, Password: "legacy-secret" }] : []))
+  await Reencrypt()
+  const update = fakes.queries.find((x) => x.text.includes("UPDATE Admin"))
+  expect(update?.inputs).toMatchObject({ id: 1, value0: "plain$legacy-secret", orig0: "legacy-secret" })
+})
+
+test("hashed passwords are left alone", async () => {
+  fakes.respond("FROM Users", (query) => (query.inputs.last === 0 ? [{ id: 1, Password: "plain$secret" }] : []))
+  await Reencrypt()
+  expect(fakes.queries.some((x) => x.text.includes("UPDATE"))).toBe(false)
+})
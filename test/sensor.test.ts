@@ -0,0 +1,44 @@
+jest.mock("../src/app", () => require("./fakes"))
+import * as fakes from "./fakes"
+import "../src/service" // Loads the repositories in the order the server does.
+import { SensorRepository } from "../src/repository/SensorRepository"
+import { SensorSpecRepository } from "../src/repository/SensorSpecRepository"
+
+const X1 = SensorRepository._pack_id({ sensor_id: "x1" })
+const conflict = Object.assign(new Error("Document update conflict."), { statusCode: 409 })
+
+beforeEach(() => {
+  fakes.reset()
+  const use = fakes.Database.use
+  jest.spyOn(fakes.Database, "use").mockImplementation((db: string) => ({
+    ...use(db),
+    get: async () => ({ _id: "x1", _rev: "1-a", "#parent": "", spec: "lamp.gps", name: "gps", settings: {} }),
+    insert: async () => Promise.reject(conflict),
+    destroy: async () => Promise.reject(conflict),
+  }))
+})
+afterEach(() => jest.restoreAllMocks())
+
+test("a concurrent update of a sensor is reported as a conflict", async () => {
+  await expect(SensorRepository._update(X1, { name: "renamed" })).rejects.toThrow("409.update-conflict")
+})
+
+test("a concurrent deletion of a sensor is reported as a conflict", async () => {
+  await expect(SensorRepository._delete(X1)).rejects.toThrow("409.update-conflict")
+})
+
+test("creating a sensor spec that already exists is reported as a conflict", async () => {
+  await expect(SensorSpecRepository._insert({ name: "lamp.gps" })).rejects.toThrow("409.sensor-spec-already-exists")
+})
+
+test("updating a sensor spec can clear its settings schema", async () => {
+  const insert = jest.fn()
+  const use = (fakes.Database.use as jest.Mock).getMockImplementation()!
+  ;(fakes.Database.use as jest.Mock).mockImplementation((db: string) => ({
+    ...use(db),
+    get: async () => ({ _id: "lamp.gps", _rev: "1-a", name: "lamp.gps", settings_schema: { type: "object" } }),
+    insert,
+  }))
+  await SensorSpecRepository._update("lamp.gps", { settings_schema: null } as any)
+  expect(insert).toHaveBeenCalledWith(expect.objectContaining({ settings_schema: null }))
+})
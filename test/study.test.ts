@@ -0,0 +1,60 @@
+jest.mock("../src/app", () => require("./fakes"))
+import * as fakes from "./fakes"
+import "../src/service" // Loads the repositories in the order the server does.
+import { StudyRepository } from "../src/repository/StudyRepository"
+import { ParticipantRepository } from "../src/repository/ParticipantRepository"
+import { SensorRepository } from "../src/repository/SensorRepository"
+import { SensorSpecRepository } from "../src/repository/SensorSpecRepository"
+
+// Study 7 belongs to researcher 2, so researcher 1 has no such study.
+const own = StudyRepository._pack_id({ admin_id: 2, study_id: 7 })
+const foreign = StudyRepository._pack_id({ admin_id: 1, study_id: 7 })
+const studies = [{ admin_id: 2, study_id: 7 }]
+const exists = (query: fakes.Query): any[] =>
+  studies.filter((x) => x.admin_id === query.inputs.admin_id && x.study_id === query.inputs.study_id).map(() => ({}))
+
+beforeEach(() => {
+  fakes.reset()
+  fakes.respond("FROM LAMP_Aux.dbo.Study", exists)
+  jest.spyOn(SensorSpecRepository, "_select").mockResolvedValue([{ name: "lamp.gps" }])
+})
+afterEach(() => jest.restoreAllMocks())
+
+describe("linking an object to a study", () => {
+  test("records the link for a study of the researcher", async () => {
+    await StudyRepository._link(own, "Activity", "a1")
+    expect(fakes.queries[0].inputs).toMatchObject({ admin_id: 2, study_id: 7, object_id: "a1" })
+  })
+
+  test.each([
+    ["another researcher's", foreign],
+    ["a nonexistent", StudyRepository._pack_id({ admin_id: 2, study_id: 8 })],
+  ])("fails for %s study", async (_, study_id) => {
+    await expect(StudyRepository._link(study_id, "Activity", "a1")).rejects.toThrow("404.study-does-not-exist")
+  })
+})
+
+describe("creating a participant", () => {
+  test("fails for another researcher's study before creating anything", async () => {
+    await expect(ParticipantRepository._insert(foreign, {})).rejects.toThrow("404.study-does-not-exist")
+    expect(fakes.queries.some((x) => x.text.includes("INSERT"))).toBe(false)
+  })
+})
+
+describe("creating a sensor", () => {
+  test("fails for another researcher's study before creating anything", async () => {
+    const insert = jest.fn()
+    const use = fakes.Database.use
+    jest.spyOn(fakes.Database, "use").mockImplementation((db: string) => ({ ...use(db), insert }))
+    await expect(SensorRepository._insert(foreign, { spec: "lamp.gps" })).rejects.toThrow("404.study-does-not-exist")
+    expect(insert).not.toHaveBeenCalled()
+  })
+
+  test("is parented by a study of the researcher", async () => {
+    const insert = jest.fn()
+    const use = fakes.Database.use
+    jest.spyOn(fakes.Database, "use").mockImplementation((db: string) => ({ ...use(db), insert }))
+    await SensorRepository._insert(own, { spec: "lamp.gps" })
+    expect(insert).toHaveBeenCalledWith(expect.objectContaining({ "#parent": own }))
+  })
+})
@@ -0,0 +1,57 @@
+jest.mock("../src/app", () => require("./fakes"))
+import * as fakes from "./fakes"
+import "../src/service" // Loads the repositories in the order the server does.
+import { TokenRepository } from "../src/repository/TokenRepository"
+
+const TOKEN_KEY = process.env.TOKEN_KEY
+
+beforeEach(() => fakes.reset())
+afterEach(() => {
+  if (TOKEN_KEY === undefined) delete process.env.TOKEN_KEY
+  else process.env.TOKEN_KEY = TOKEN_KEY
+})
+
+test("tokens are signed with TOKEN_KEY", async () => {
+  process.env.TOKEN_KEY = "00112233445566778899aabbccddeeff"
+  const { access_token } = await TokenRepository._issue("root", "root")
+  expect((await TokenRepository._unpack(access_token, "access")).sub).toBe("root")
+
+  process.env.TOKEN_KEY = "ffeeddccbbaa99887766554433221100"
+  await expect(TokenRepository._unpack(access_token, "access")).rejects.toThrow("401.invalid-token")
+})
+
+test("no token is issued or accepted without TOKEN_KEY", async () => {
+  process.env.TOKEN_KEY = "00112233445566778899aabbccddeeff"
+  const { access_token } = await TokenRepository._issue("root", "root")
+
+  delete process.env.TOKEN_KEY
+  process.env.ROOT_KEY = "00112233445566778899aabbccddeeff"
+  await expect(TokenRepository._issue("root", "root")).rejects.toThrow("500.token-key-not-configured")
+  expect(() => TokenRepository._cosign("root", "root", 60)).toThrow("500.token-key-not-configured")
+  await expect(TokenRepository._unpack(access_token, "access")).rejects.toThrow("500.token-key-not-configured")
+})
+
+test("refreshing a token re-checks the password of the identity it was issued to", async () => {
+  process.env.TOKEN_KEY = "00112233445566778899aabbccddeeff"
+  let password: string | undefined = "plain$participant-secret"
+  fakes.respond("SELECT Password FROM Users", () => (password === undefined ? [] : [{ Password: password }]))
+
+  const first = await TokenRepository._issue("U1", "U1")
+  const second = await TokenRepository._refresh(first.refresh_token)
+  expect((await TokenRepository._unpack(second.access_token, "access")).sub).toBe("U1")
+
+  password = "plain$another-secret"
+  await expect(TokenRepository._refresh(second.refresh_token)).rejects.toThrow("401.token-revoked")
+
+  const third = await TokenRepository._issue("U1", "U1")
+  password = undefined // The Participant was deleted.
+  await expect(TokenRepository._refresh(third.refresh_token)).rejects.toThrow("401.token-revoked")
+})
+
+test("refreshing a root token re-checks the root password", async () => {
+  process.env.TOKEN_KEY = "00112233445566778899aabbccddeeff"
+  const { refresh_token } = await TokenRepository._issue("root", "root")
+
+  fakes.documents.root["#master_config"].data.password = "plain$new-root-secret"
+  await expect(TokenRepository._refresh(refresh_token)).rejects.toThrow("401.token-revoked")
+})